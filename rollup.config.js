@@ -8,12 +8,32 @@ const require = createRequire(import.meta.url);
 const packageJson = require("./package.json");
 
 export default [
-	// ES Module Build
+	// ES Module Build, the testing entry shares its chunks with the main one
 	{
-		input: "src/index.ts",
+		input: { index: "src/index.ts", testing: "src/testing.ts" },
 		output: {
-			file: packageJson.module, // e.g. "dist/index.esm.js"
+			dir: "dist",
 			format: "esm",
+			entryFileNames: "[name].esm.js", // e.g. "dist/index.esm.js"
+			chunkFileNames: "[name]-[hash].esm.js",
+			sourcemap: true,
+		},
+		plugins: [
+			resolve(),
+			commonjs(),
+			json(),
+			typescript({ tsconfig: "./tsconfig.json" }),
+		],
+	},
+	// CommonJS Build, used by require("vexd-js") and require("vexd-js/testing")
+	{
+		input: { index: "src/index.ts", testing: "src/testing.ts" },
+		output: {
+			dir: "dist",
+			format: "cjs",
+			entryFileNames: "[name].cjs",
+			chunkFileNames: "[name]-[hash].cjs",
+			exports: "named",
 			sourcemap: true,
 		},
 		plugins: [
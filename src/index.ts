@@ -2,14 +2,95 @@
  * @file index.ts
  * @description Entry point for the vexd-js framework, exports all public APIs
  */
-export { Vexd } from "./vexd";
+export { Vexd, VexdWaitForOptions } from "./vexd";
 export { VexdElement } from "./vexd-element";
+export { VexdCollection } from "./vexd-collection";
+export { html, unsafeHTML, VexdTemplateResult } from "./vexd-template";
+export { renderToString, VexdHydrateOptions } from "./vexd-ssr";
+export {
+	VexdDragInfo,
+	VexdDragOptions,
+	VexdSortableOptions,
+} from "./vexd-drag";
+export { VexdAnnounceOptions, VexdRovingOptions } from "./vexd-a11y";
+export { VexdHotkeyOptions, isHotkeyScopeActive } from "./vexd-hotkeys";
+export {
+	fromEvent,
+	fromMediaQuery,
+	fromObservable,
+	fromPromise,
+	until,
+	VexdPromiseState,
+	VexdPromiseStatus,
+	VexdSourceState,
+	VexdSubscribable,
+} from "./vexd-sources";
+export {
+	VexdRouter,
+	VexdRouterOptions,
+	VexdRouteDefinition,
+	VexdRoute,
+	VexdGuard,
+	VexdQuery,
+	parseQuery,
+	stringifyQuery,
+} from "./vexd-router";
+export {
+	VexdComponentElement,
+	VexdComponentOptions,
+	VexdPropDefinition,
+	VexdProps,
+	VexdPropsDefinition,
+} from "./vexd-component";
+export {
+	VexdForm,
+	VexdFormOptions,
+	VexdValidator,
+	validators,
+} from "./vexd-form";
+export {
+	VexdTimeline,
+	VexdAnimationOptions,
+	prefersReducedMotion,
+} from "./vexd-animation";
 export {
 	state,
 	stateList,
+	applyListChanges,
+	VexdListChange,
+	computed,
+	objectState,
+	persistedState,
+	withHistory,
+	batch,
+	flushBatch,
+	setBatchMode,
+	BatchMode,
 	createInterval,
 	createTimer,
+	createFrameLoop,
+	createDebounce,
+	createThrottle,
+	VexTimedHook,
+	VexdFrameLoop,
+	VexdRateLimited,
+	VexdRateLimitOptions,
+	createRequest,
+	clearRequestCache,
+	VexdRequest,
+	VexdRequestError,
+	VexdRequestOptions,
 	VexdState,
 	VexdStateList,
+	VexdComputed,
+	VexdObjectState,
+	VexdFocusedState,
+	Path,
+	PathValue,
+	VexdPersistedState,
+	VexdPersistOptions,
+	VexdStorageAdapter,
+	VexdHistory,
+	VexdHistoryOptions,
 	effectStore
 } from "./vexd-hooks";
@@ -0,0 +1,278 @@
+/**
+ * @file testing.ts
+ * @description Helpers for testing code built on vexd-js under jsdom or happy-dom, published as `vexd-js/testing`.
+ */
+
+import { setEffectTracker, VexdElement, VexdTrackedEffect } from "./vexd-element";
+import { flushBatch } from "./vexd-state";
+
+export { VexdTrackedEffect };
+
+type Target = VexdElement | Element | Document | Window;
+
+type FieldElement = HTMLInputElement | HTMLTextAreaElement;
+
+export interface VexdFakeClock {
+	/** the fake time in milliseconds */
+	now(): number;
+	/** advances the time, running every timer and frame that comes due */
+	tick(ms: number): void;
+	/** runs timers until none are left, throws if they keep rescheduling */
+	runAll(): void;
+	/** the number of scheduled timers and frames */
+	pending(): number;
+	/** puts the real timers back */
+	restore(): void;
+}
+
+export interface VexdLeakTracker {
+	/** listeners and observers registered since tracking started and not yet disposed */
+	active(): VexdTrackedEffect[];
+	/** throws an error describing every active effect */
+	assertNoLeaks(): void;
+	/** stops tracking */
+	stop(): void;
+}
+
+interface FakeTimer {
+	id: number;
+	at: number;
+	callback: (...args: any[]) => void;
+	args: any[];
+	interval: number | null;
+}
+
+const FRAME_DURATION = 16;
+
+const fixtures: HTMLElement[] = [];
+let activeClock: VexdFakeClock | null = null;
+let activeTracker: VexdLeakTracker | null = null;
+
+function toNative(target: Target): EventTarget {
+	return target instanceof VexdElement ? target.native() : target;
+}
+
+/**
+ * renders markup or a node into a container attached to the document,
+ * fixtures are removed and their effects disposed by `cleanup`.
+ * @param content - HTML, a node or a VexdElement.
+ * @returns The first element of the content, or the container when it has none.
+ */
+export function mount(content: string | Node | VexdElement): VexdElement {
+	const container = document.createElement("div");
+	container.setAttribute("data-vexd-fixture", "");
+	if (typeof content === "string") container.innerHTML = content;
+	else container.appendChild(content instanceof VexdElement ? content.native() : content);
+	document.body.appendChild(container);
+	fixtures.push(container);
+	const root = container.firstElementChild as HTMLElement | null;
+	return new VexdElement(root ?? container);
+}
+
+/**
+ * removes every mounted fixture, disposes their effects, flushes pending
+ * state and restores a fake clock. runs after each test automatically
+ * when the test runner exposes a global `afterEach`.
+ */
+export function cleanup(): void {
+	fixtures.splice(0).forEach((container) => new VexdElement(container).remove());
+	flushBatch();
+	activeClock?.restore();
+}
+
+/**
+ * delivers every pending state notification now, for states updated in a
+ * batch or while the batch mode is "microtask".
+ */
+export function flushEffects(): void {
+	flushBatch();
+}
+
+/**
+ * creates and dispatches an event of the matching type (mouse, keyboard,
+ * pointer, focus, input), events bubble and are cancelable by default.
+ * @param target - Element, document or window.
+ * @param eventName - Event name, e.g "click" or "keydown".
+ * @param init - Event properties such as `key` or `clientX`.
+ * @returns False if the default action was prevented.
+ */
+export function fire(target: Target, eventName: string, init: Record<string, any> = {}): boolean {
+	const options = { bubbles: true, cancelable: true, ...init };
+	let event: Event;
+	if (/^key/.test(eventName)) event = new KeyboardEvent(eventName, options);
+	else if (/^pointer/.test(eventName) && typeof PointerEvent === "function") {
+		event = new PointerEvent(eventName, { pointerId: 1, ...options });
+	} else if (/^(click|dblclick|contextmenu|mouse|pointer)/.test(eventName)) {
+		event = new MouseEvent(eventName, options);
+	} else if (/^(focus|blur)/.test(eventName)) {
+		event = new FocusEvent(eventName, { bubbles: /^focus(in|out)$/.test(eventName), ...init });
+	} else if (/^(beforeinput|input)$/.test(eventName) && typeof InputEvent === "function") {
+		event = new InputEvent(eventName, options);
+	} else {
+		event = new CustomEvent(eventName, options);
+	}
+	const result = toNative(target).dispatchEvent(event);
+	flushBatch();
+	return result;
+}
+
+/**
+ * types text into an input or textarea one character at a time, firing
+ * keydown, input and keyup for each and change at the end.
+ * @param target - Input or textarea.
+ * @param text - Text to append to the current value.
+ */
+export function type(target: VexdElement | FieldElement, text: string): void {
+	const field = toNative(target) as FieldElement;
+	field.focus();
+	Array.from(text).forEach((char) => {
+		if (!fire(field, "keydown", { key: char })) return;
+		field.value += char;
+		fire(field, "input", { data: char, inputType: "insertText" });
+		fire(field, "keyup", { key: char });
+	});
+	fire(field, "change");
+}
+
+/**
+ * empties an input or textarea, firing input and change.
+ * @param target - Input or textarea.
+ */
+export function clear(target: VexdElement | FieldElement): void {
+	const field = toNative(target) as FieldElement;
+	field.value = "";
+	fire(field, "input", { inputType: "deleteContentBackward" });
+	fire(field, "change");
+}
+
+/**
+ * replaces setTimeout, setInterval, requestAnimationFrame and Date.now
+ * with a clock that only moves when told to, so `createTimer`,
+ * `createInterval` and frame loops can be stepped through.
+ * @returns The fake clock.
+ */
+export function useFakeClock(): VexdFakeClock {
+	activeClock?.restore();
+	const scope = globalThis as any;
+	const real = {
+		setTimeout: scope.setTimeout,
+		clearTimeout: scope.clearTimeout,
+		setInterval: scope.setInterval,
+		clearInterval: scope.clearInterval,
+		requestAnimationFrame: scope.requestAnimationFrame,
+		cancelAnimationFrame: scope.cancelAnimationFrame,
+		dateNow: Date.now,
+	};
+	const timers = new Map<number, FakeTimer>();
+	let now = Date.now();
+	let nextId = 1;
+
+	const schedule = (callback: FakeTimer["callback"], ms = 0, args: any[], repeat: boolean) => {
+		const delay = Math.max(0, Number(ms) || 0);
+		const id = nextId++;
+		timers.set(id, { id, at: now + delay, callback, args, interval: repeat ? delay : null });
+		return id;
+	};
+	const cancel = (id: number) => void timers.delete(id);
+
+	/** runs the earliest timer due at or before the limit */
+	const runNext = (limit: number): boolean => {
+		let due: FakeTimer | null = null;
+		timers.forEach((timer) => {
+			if (timer.at <= limit && (!due || timer.at < due.at || (timer.at === due.at && timer.id < due.id))) {
+				due = timer;
+			}
+		});
+		if (!due) return false;
+		const timer: FakeTimer = due;
+		now = Math.max(now, timer.at);
+		if (timer.interval === null) timers.delete(timer.id);
+		else timer.at = now + Math.max(1, timer.interval);
+		timer.callback(...timer.args);
+		return true;
+	};
+
+	scope.setTimeout = (callback: FakeTimer["callback"], ms?: number, ...args: any[]) =>
+		schedule(callback, ms, args, false);
+	scope.setInterval = (callback: FakeTimer["callback"], ms?: number, ...args: any[]) =>
+		schedule(callback, ms, args, true);
+	scope.clearTimeout = cancel;
+	scope.clearInterval = cancel;
+	scope.requestAnimationFrame = (callback: FrameRequestCallback) =>
+		schedule(() => callback(now), FRAME_DURATION - (now % FRAME_DURATION), [], false);
+	scope.cancelAnimationFrame = cancel;
+	Date.now = () => now;
+
+	const clock: VexdFakeClock = {
+		now: () => now,
+		tick(ms) {
+			const target = now + ms;
+			while (runNext(target)) flushBatch();
+			now = target;
+		},
+		runAll() {
+			for (let runs = 0; timers.size > 0; runs++) {
+				if (runs >= 1000) {
+					throw new Error("vexd-js: timers are still scheduled after 1000 runs, use tick() for intervals");
+				}
+				runNext(Infinity);
+				flushBatch();
+			}
+		},
+		pending: () => timers.size,
+		restore() {
+			if (activeClock !== clock) return;
+			scope.setTimeout = real.setTimeout;
+			scope.clearTimeout = real.clearTimeout;
+			scope.setInterval = real.setInterval;
+			scope.clearInterval = real.clearInterval;
+			scope.requestAnimationFrame = real.requestAnimationFrame;
+			scope.cancelAnimationFrame = real.cancelAnimationFrame;
+			Date.now = real.dateNow;
+			timers.clear();
+			activeClock = null;
+		},
+	};
+	activeClock = clock;
+	return clock;
+}
+
+function describeEffect(effect: VexdTrackedEffect): string {
+	const { target } = effect;
+	const element = `<${target.tagName.toLowerCase()}${target.id ? `#${target.id}` : ""}>`;
+	return effect.detail ? `${effect.kind} "${effect.detail}" on ${element}` : `${effect.kind} on ${element}`;
+}
+
+/**
+ * records listeners and observers added with `VexdElement.event` (and the
+ * other listener helpers), `observe` and `intersection` until they are
+ * disposed, either directly or with their element.
+ * @returns The leak tracker.
+ */
+export function trackLeaks(): VexdLeakTracker {
+	activeTracker?.stop();
+	const active = new Set<VexdTrackedEffect>();
+	setEffectTracker((effect) => {
+		active.add(effect);
+		return () => active.delete(effect);
+	});
+
+	const tracker: VexdLeakTracker = {
+		active: () => Array.from(active),
+		assertNoLeaks() {
+			if (active.size === 0) return;
+			const lines = Array.from(active).map((effect) => `  - ${describeEffect(effect)}`);
+			throw new Error(`vexd-js: ${active.size} effect(s) were not disposed:\n${lines.join("\n")}`);
+		},
+		stop() {
+			if (activeTracker !== tracker) return;
+			setEffectTracker(null);
+			activeTracker = null;
+		},
+	};
+	activeTracker = tracker;
+	return tracker;
+}
+
+const runner = globalThis as { afterEach?: (fn: () => void) => void };
+if (typeof runner.afterEach === "function") runner.afterEach(cleanup);
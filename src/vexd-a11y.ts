@@ -0,0 +1,257 @@
+/**
+ * @file vexd-a11y.ts
+ * @description Focus trapping, roving tabindex, live announcements and inert helpers used by VexdElement.
+ */
+
+export interface VexdRovingOptions {
+	/** arrow keys that move between items (defaults to "both") */
+	orientation?: "horizontal" | "vertical" | "both";
+	/** move from the last item to the first and back (defaults to true) */
+	wrap?: boolean;
+}
+
+export interface VexdAnnounceOptions {
+	/** "assertive" interrupts the screen reader (defaults to "polite") */
+	politeness?: "polite" | "assertive";
+}
+
+const FOCUSABLE = [
+	"a[href]",
+	"area[href]",
+	"button:not([disabled])",
+	"input:not([disabled]):not([type='hidden'])",
+	"select:not([disabled])",
+	"textarea:not([disabled])",
+	"iframe",
+	"audio[controls]",
+	"video[controls]",
+	"[contenteditable]:not([contenteditable='false'])",
+	"[tabindex]",
+].join(",");
+
+const VISUALLY_HIDDEN: Partial<CSSStyleDeclaration> = {
+	position: "absolute",
+	width: "1px",
+	height: "1px",
+	margin: "-1px",
+	padding: "0",
+	border: "0",
+	overflow: "hidden",
+	clip: "rect(0 0 0 0)",
+	whiteSpace: "nowrap",
+};
+
+/** active focus traps, only the last one handles focus */
+const traps: HTMLElement[] = [];
+
+const liveRegions = new Map<string, HTMLElement>();
+
+/**
+ * the elements inside a container that can be reached with tab, in order
+ */
+function tabbable(container: HTMLElement): HTMLElement[] {
+	return (Array.from(container.querySelectorAll(FOCUSABLE)) as HTMLElement[]).filter(
+		(el) => el.tabIndex >= 0 && !el.hidden && !el.closest("[inert]")
+	);
+}
+
+/**
+ * keeps focus inside a container until released, focus moves to the first
+ * tabbable element and goes back to the previously focused one on release.
+ * @param container - Element to trap focus in.
+ * @returns A function releasing the trap.
+ */
+export function trapFocus(container: HTMLElement): VoidFunction {
+	const previous = document.activeElement as HTMLElement | null;
+	traps.push(container);
+
+	const focusFirst = () => {
+		const [first] = tabbable(container);
+		if (first) {
+			first.focus();
+			return;
+		}
+		if (!container.hasAttribute("tabindex")) container.setAttribute("tabindex", "-1");
+		container.focus();
+	};
+
+	const onKeyDown = (e: KeyboardEvent) => {
+		if (e.key !== "Tab" || traps[traps.length - 1] !== container) return;
+		const items = tabbable(container);
+		if (items.length === 0) {
+			e.preventDefault();
+			return;
+		}
+		const first = items[0];
+		const last = items[items.length - 1];
+		const active = document.activeElement;
+		if (e.shiftKey && (active === first || !container.contains(active))) {
+			e.preventDefault();
+			last.focus();
+		} else if (!e.shiftKey && (active === last || !container.contains(active))) {
+			e.preventDefault();
+			first.focus();
+		}
+	};
+
+	const onFocusIn = (e: FocusEvent) => {
+		if (traps[traps.length - 1] !== container) return;
+		if (!container.contains(e.target as Node)) focusFirst();
+	};
+
+	document.addEventListener("keydown", onKeyDown);
+	document.addEventListener("focusin", onFocusIn);
+	if (!container.contains(document.activeElement)) focusFirst();
+
+	let released = false;
+	return () => {
+		if (released) return;
+		released = true;
+		document.removeEventListener("keydown", onKeyDown);
+		document.removeEventListener("focusin", onFocusIn);
+		const index = traps.lastIndexOf(container);
+		if (index !== -1) traps.splice(index, 1);
+		if (previous && previous.isConnected) previous.focus();
+	};
+}
+
+/**
+ * makes a group of items reachable with a single tab stop, arrow keys,
+ * Home and End move focus between them.
+ * @param container - Element containing the items.
+ * @param itemSelector - CSS selector for the items, queried on every key press.
+ * @param options - Orientation and wrapping.
+ * @returns A function removing the key handling.
+ */
+export function rovingTabindex(
+	container: HTMLElement,
+	itemSelector: string,
+	options: VexdRovingOptions = {}
+): VoidFunction {
+	const { orientation = "both", wrap = true } = options;
+	const items = () =>
+		(Array.from(container.querySelectorAll(itemSelector)) as HTMLElement[]).filter(
+			(item) => !item.hasAttribute("disabled") && item.getAttribute("aria-disabled") !== "true"
+		);
+
+	const activate = (target: HTMLElement, focus: boolean) => {
+		items().forEach((item) => item.setAttribute("tabindex", item === target ? "0" : "-1"));
+		if (focus) target.focus();
+	};
+
+	const initial = items();
+	const current = initial.find((item) => item.getAttribute("tabindex") === "0") ?? initial[0];
+	if (current) activate(current, false);
+
+	const previousKeys: string[] = [];
+	const nextKeys: string[] = [];
+	if (orientation !== "vertical") {
+		previousKeys.push("ArrowLeft");
+		nextKeys.push("ArrowRight");
+	}
+	if (orientation !== "horizontal") {
+		previousKeys.push("ArrowUp");
+		nextKeys.push("ArrowDown");
+	}
+
+	const onKeyDown = (e: KeyboardEvent) => {
+		const list = items();
+		const index = list.findIndex((item) => item.contains(e.target as Node));
+		if (index === -1) return;
+		let next: number;
+		if (previousKeys.includes(e.key)) {
+			next = index === 0 ? (wrap ? list.length - 1 : 0) : index - 1;
+		} else if (nextKeys.includes(e.key)) {
+			next = index === list.length - 1 ? (wrap ? 0 : index) : index + 1;
+		} else if (e.key === "Home") {
+			next = 0;
+		} else if (e.key === "End") {
+			next = list.length - 1;
+		} else {
+			return;
+		}
+		e.preventDefault();
+		activate(list[next], true);
+	};
+
+	const onFocusIn = (e: FocusEvent) => {
+		const item = items().find((candidate) => candidate === e.target);
+		if (item) activate(item, false);
+	};
+
+	container.addEventListener("keydown", onKeyDown);
+	container.addEventListener("focusin", onFocusIn);
+	return () => {
+		container.removeEventListener("keydown", onKeyDown);
+		container.removeEventListener("focusin", onFocusIn);
+	};
+}
+
+function liveRegion(politeness: "polite" | "assertive"): HTMLElement {
+	let region = liveRegions.get(politeness);
+	if (!region || !region.isConnected) {
+		region = document.createElement("div");
+		region.setAttribute("aria-live", politeness);
+		region.setAttribute("aria-atomic", "true");
+		region.setAttribute("role", politeness === "assertive" ? "alert" : "status");
+		region.setAttribute("data-vexd-announcer", politeness);
+		Object.assign(region.style, VISUALLY_HIDDEN);
+		document.body.appendChild(region);
+		liveRegions.set(politeness, region);
+	}
+	return region;
+}
+
+/**
+ * reads a message to screen reader users through a shared, visually
+ * hidden live region.
+ * @param message - Text to announce.
+ * @param options - Politeness of the announcement.
+ */
+export function announce(message: string, options: VexdAnnounceOptions = {}): void {
+	const region = liveRegion(options.politeness ?? "polite");
+	// clearing first makes repeating the same message announce it again
+	region.textContent = "";
+	setTimeout(() => {
+		region.textContent = message;
+	}, 50);
+}
+
+/**
+ * sets or removes the inert attribute, aria-hidden is mirrored where
+ * inert is unsupported.
+ */
+export function setInert(el: HTMLElement, value: boolean): void {
+	const supported = "inert" in HTMLElement.prototype;
+	if (value) {
+		el.setAttribute("inert", "");
+		if (!supported) el.setAttribute("aria-hidden", "true");
+	} else {
+		el.removeAttribute("inert");
+		if (!supported) el.removeAttribute("aria-hidden");
+	}
+}
+
+/**
+ * makes everything outside an element inert, e.g. the page behind a
+ * modal. siblings of the element and of each of its ancestors are made
+ * inert, those that already were are left alone.
+ * @returns A function restoring the affected elements.
+ */
+export function inertOutside(el: HTMLElement): VoidFunction {
+	const affected: HTMLElement[] = [];
+	let current: HTMLElement | null = el;
+	while (current && current !== document.body && current.parentElement) {
+		Array.from(current.parentElement.children).forEach((sibling) => {
+			if (sibling === current || !(sibling instanceof HTMLElement)) return;
+			if (sibling.hasAttribute("inert") || sibling.tagName === "SCRIPT") return;
+			if (sibling.hasAttribute("data-vexd-announcer")) return;
+			setInert(sibling, true);
+			affected.push(sibling);
+		});
+		current = current.parentElement;
+	}
+	return () => {
+		affected.splice(0).forEach((sibling) => setInert(sibling, false));
+	};
+}
@@ -0,0 +1,413 @@
+/**
+ * @file vexd-animation.ts
+ * @description Web Animations API helpers, presets and timelines used by VexdElement.
+ */
+
+import type { VexdElement } from "./vexd-element";
+
+export interface VexdAnimationOptions extends KeyframeAnimationOptions {
+	/**
+	 * keep the final keyframe's styles on the element once the animation
+	 * finishes (defaults to true)
+	 */
+	persist?: boolean;
+	/**
+	 * skip straight to the end when the user prefers reduced motion
+	 * (defaults to true)
+	 */
+	respectReducedMotion?: boolean;
+}
+
+export interface RunningAnimation {
+	animation: Animation | null;
+	/** resolves with false instead of rejecting when the animation is cancelled */
+	finished: Promise<boolean>;
+}
+
+const PRESET_DEFAULTS: VexdAnimationOptions = {
+	duration: 300,
+	easing: "ease",
+};
+
+const NON_STYLE_KEYS = ["offset", "easing", "composite"];
+
+/**
+ * checks the `prefers-reduced-motion` media query.
+ * @returns {boolean} True if the user prefers reduced motion.
+ */
+export function prefersReducedMotion(): boolean {
+	return (
+		typeof matchMedia === "function" &&
+		matchMedia("(prefers-reduced-motion: reduce)").matches
+	);
+}
+
+/**
+ * cancelling an animation rejects its `finished` promise with an AbortError
+ */
+const isAbort = (error: unknown) =>
+	typeof error === "object" && error !== null && (error as Error).name === "AbortError";
+
+/**
+ * the styles of the last frame in either keyframe format
+ */
+function finalStyles(
+	keyframes: Keyframe[] | PropertyIndexedKeyframes
+): Record<string, string> {
+	const styles: Record<string, string> = {};
+	const source = Array.isArray(keyframes)
+		? keyframes[keyframes.length - 1] ?? {}
+		: keyframes;
+	Object.keys(source).forEach((key) => {
+		if (NON_STYLE_KEYS.includes(key)) return;
+		const value = (source as any)[key];
+		const last = Array.isArray(value) ? value[value.length - 1] : value;
+		if (last !== undefined && last !== null) styles[key] = String(last);
+	});
+	return styles;
+}
+
+/**
+ * starts an animation, when the Web Animations API is unavailable the
+ * final keyframe is applied immediately.
+ * @param el - Element to animate.
+ * @param keyframes - Keyframes in either format accepted by Element.animate.
+ * @param options - Animation options.
+ * @returns The animation (or null) and a promise resolving with false if it is cancelled.
+ */
+export function runAnimation(
+	el: HTMLElement,
+	keyframes: Keyframe[] | PropertyIndexedKeyframes,
+	options: VexdAnimationOptions = {}
+): RunningAnimation {
+	const { persist = true, respectReducedMotion = true, ...timing } = options;
+	const commit = () => {
+		if (persist) Object.assign(el.style, finalStyles(keyframes));
+	};
+
+	if (typeof el.animate !== "function") {
+		commit();
+		return { animation: null, finished: Promise.resolve(true) };
+	}
+
+	if (respectReducedMotion && prefersReducedMotion()) {
+		timing.duration = 0;
+		timing.delay = 0;
+	}
+	const animation = el.animate(keyframes, {
+		...timing,
+		fill: persist ? "forwards" : timing.fill,
+	});
+	const finished = animation.finished.then(
+		() => {
+			commit();
+			if (persist) animation.cancel();
+			return true;
+		},
+		(error) => {
+			if (isAbort(error)) return false;
+			throw error;
+		}
+	);
+	return { animation, finished };
+}
+
+/**
+ * shows an element that is hidden with display: none so it can be measured
+ * and animated.
+ */
+function reveal(el: HTMLElement): void {
+	if (el.style.display === "none") el.style.removeProperty("display");
+	if (getComputedStyle(el).display === "none") el.style.display = "block";
+}
+
+/**
+ * fades an element in, showing it first if it is hidden with display: none.
+ */
+export function fadeIn(
+	el: HTMLElement,
+	options: VexdAnimationOptions = {}
+): Promise<boolean> {
+	reveal(el);
+	return runAnimation(el, [{ opacity: 0 }, { opacity: 1 }], {
+		...PRESET_DEFAULTS,
+		...options,
+		persist: false,
+	}).finished;
+}
+
+/**
+ * fades an element out and hides it with display: none, a cancelled fade
+ * leaves the element visible.
+ */
+export function fadeOut(
+	el: HTMLElement,
+	options: VexdAnimationOptions = {}
+): Promise<boolean> {
+	const { animation, finished } = runAnimation(el, [{ opacity: 1 }, { opacity: 0 }], {
+		...PRESET_DEFAULTS,
+		...options,
+		persist: false,
+		fill: "forwards",
+	});
+	return finished.then((completed) => {
+		if (!completed) return false;
+		el.style.display = "none";
+		animation?.cancel();
+		return true;
+	});
+}
+
+/**
+ * animates the height between zero and the element's full height with
+ * overflow hidden for the duration.
+ */
+function slide(
+	el: HTMLElement,
+	direction: "down" | "up",
+	options: VexdAnimationOptions
+): Promise<boolean> {
+	if (direction === "down") reveal(el);
+	const height = `${el.scrollHeight}px`;
+	const frames =
+		direction === "down"
+			? [{ height: "0px" }, { height }]
+			: [{ height }, { height: "0px" }];
+	const overflow = el.style.overflow;
+	el.style.overflow = "hidden";
+
+	const { animation, finished } = runAnimation(el, frames, {
+		...PRESET_DEFAULTS,
+		...options,
+		persist: false,
+		fill: "forwards",
+	});
+	return finished.then(
+		(completed) => {
+			el.style.overflow = overflow;
+			if (!completed) return false;
+			if (direction === "up") el.style.display = "none";
+			animation?.cancel();
+			return true;
+		},
+		(error) => {
+			el.style.overflow = overflow;
+			throw error;
+		}
+	);
+}
+
+/**
+ * reveals an element by expanding its height.
+ */
+export function slideDown(
+	el: HTMLElement,
+	options: VexdAnimationOptions = {}
+): Promise<boolean> {
+	return slide(el, "down", options);
+}
+
+/**
+ * collapses an element's height and hides it with display: none.
+ */
+export function slideUp(
+	el: HTMLElement,
+	options: VexdAnimationOptions = {}
+): Promise<boolean> {
+	return slide(el, "up", options);
+}
+
+/**
+ * scales an element between two factors, keeping the final transform.
+ */
+export function scale(
+	el: HTMLElement,
+	from: number,
+	to: number,
+	options: VexdAnimationOptions = {}
+): Promise<boolean> {
+	return runAnimation(
+		el,
+		[{ transform: `scale(${from})` }, { transform: `scale(${to})` }],
+		{ ...PRESET_DEFAULTS, ...options }
+	).finished;
+}
+
+/**
+ * shakes an element horizontally, e.g. to flag an invalid input.
+ */
+export function shake(
+	el: HTMLElement,
+	options: VexdAnimationOptions = {}
+): Promise<boolean> {
+	const offsets = [0, -8, 8, -6, 6, -3, 3, 0];
+	return runAnimation(
+		el,
+		offsets.map((offset) => ({ transform: `translateX(${offset}px)` })),
+		{ ...PRESET_DEFAULTS, duration: 400, ...options, persist: false }
+	).finished;
+}
+
+type TimelineTarget = VexdElement | HTMLElement;
+
+type TimelineEntry =
+	| {
+			target: HTMLElement;
+			keyframes: Keyframe[] | PropertyIndexedKeyframes;
+			options?: VexdAnimationOptions;
+	  }
+	| (() => Promise<unknown>);
+
+/** the state of one `play` call */
+interface TimelinePlayback {
+	cancelled: boolean;
+	running: Animation[];
+	/** stops waiting for the running step */
+	interrupt: VoidFunction | null;
+}
+
+/**
+ * runs animations across elements, `add` starts a new step once the
+ * previous one has finished and `with` runs alongside the last step.
+ */
+export class VexdTimeline {
+	private steps: TimelineEntry[][] = [];
+	private playback: TimelinePlayback | null = null;
+
+	/**
+	 * adds a step that starts after the previous step finishes, animations
+	 * the function starts synchronously are stopped by `cancel`.
+	 * @overload
+	 * @param {() => Promise<unknown>} run - Function starting the step (e.g. a preset).
+	 * @returns {VexdTimeline} The current timeline.
+	 */
+	add(run: () => Promise<unknown>): VexdTimeline;
+	/**
+	 * @param target - Element to animate.
+	 * @param keyframes - Keyframes for the animation.
+	 * @param options - Animation options.
+	 * @returns {VexdTimeline} The current timeline.
+	 */
+	add(
+		target: TimelineTarget,
+		keyframes: Keyframe[] | PropertyIndexedKeyframes,
+		options?: VexdAnimationOptions
+	): VexdTimeline;
+	add(
+		target: TimelineTarget | (() => Promise<unknown>),
+		keyframes?: Keyframe[] | PropertyIndexedKeyframes,
+		options?: VexdAnimationOptions
+	): VexdTimeline {
+		this.steps.push([toEntry(target, keyframes, options)]);
+		return this;
+	}
+
+	/**
+	 * adds an animation that runs in parallel with the last step.
+	 * @overload
+	 * @param {() => Promise<unknown>} run - Function starting the animation (e.g. a preset).
+	 * @returns {VexdTimeline} The current timeline.
+	 */
+	with(run: () => Promise<unknown>): VexdTimeline;
+	/**
+	 * @param target - Element to animate.
+	 * @param keyframes - Keyframes for the animation.
+	 * @param options - Animation options.
+	 * @returns {VexdTimeline} The current timeline.
+	 */
+	with(
+		target: TimelineTarget,
+		keyframes: Keyframe[] | PropertyIndexedKeyframes,
+		options?: VexdAnimationOptions
+	): VexdTimeline;
+	with(
+		target: TimelineTarget | (() => Promise<unknown>),
+		keyframes?: Keyframe[] | PropertyIndexedKeyframes,
+		options?: VexdAnimationOptions
+	): VexdTimeline {
+		const entry = toEntry(target, keyframes, options);
+		const last = this.steps[this.steps.length - 1];
+		if (last) last.push(entry);
+		else this.steps.push([entry]);
+		return this;
+	}
+
+	/**
+	 * plays every step in order, cancelling a play that is still running.
+	 * @returns {Promise<boolean>} Resolves with false if the timeline was cancelled.
+	 */
+	async play(): Promise<boolean> {
+		this.cancel();
+		const playback: TimelinePlayback = { cancelled: false, running: [], interrupt: null };
+		this.playback = playback;
+		try {
+			for (const step of this.steps) {
+				if (playback.cancelled) return false;
+				const interrupted = new Promise<void>((resolve) => (playback.interrupt = resolve));
+				const finished = Promise.all(step.map((entry) => startEntry(entry, playback)));
+				// a step left behind by cancel may still reject
+				finished.catch(() => {});
+				try {
+					await Promise.race([finished, interrupted]);
+				} catch (error) {
+					if (playback.cancelled) return false;
+					throw error;
+				} finally {
+					playback.running = [];
+					playback.interrupt = null;
+				}
+			}
+			return !playback.cancelled;
+		} finally {
+			if (this.playback === playback) this.playback = null;
+		}
+	}
+
+	/**
+	 * cancels the running step and skips the remaining ones.
+	 */
+	cancel(): void {
+		const playback = this.playback;
+		if (!playback) return;
+		this.playback = null;
+		playback.cancelled = true;
+		playback.running.splice(0).forEach((animation) => animation.cancel());
+		playback.interrupt?.();
+	}
+}
+
+function startEntry(entry: TimelineEntry, playback: TimelinePlayback): Promise<unknown> {
+	if (typeof entry === "function") {
+		// the animations a function starts are found by what is new afterwards
+		const before = documentAnimations();
+		const result = entry();
+		documentAnimations().forEach((animation) => {
+			if (!before.includes(animation)) playback.running.push(animation);
+		});
+		return result;
+	}
+	const { animation, finished } = runAnimation(
+		entry.target,
+		entry.keyframes,
+		entry.options
+	);
+	if (animation) playback.running.push(animation);
+	return finished;
+}
+
+function documentAnimations(): Animation[] {
+	return typeof document.getAnimations === "function" ? document.getAnimations() : [];
+}
+
+function toEntry(
+	target: TimelineTarget | (() => Promise<unknown>),
+	keyframes?: Keyframe[] | PropertyIndexedKeyframes,
+	options?: VexdAnimationOptions
+): TimelineEntry {
+	if (typeof target === "function") return target;
+	return {
+		target: target instanceof HTMLElement ? target : target.native(),
+		keyframes: keyframes ?? [],
+		options,
+	};
+}
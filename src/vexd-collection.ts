@@ -0,0 +1,668 @@
+/**
+ * @file vexd-collection.ts
+ * @description Chainable operations applied to every element in a group of VexdElements.
+ */
+
+import type { VexdAnimationOptions } from "./vexd-animation";
+import type { VexdElement } from "./vexd-element";
+import type { VexdState } from "./vexd-state";
+
+type ElementMatcher =
+	| string
+	| ((vex: VexdElement, index: number, array: VexdElement[]) => unknown);
+
+/**
+ * an array of VexdElements, so indexing and the usual array methods keep
+ * working, with the VexdElement API applied to every element.
+ */
+export class VexdCollection extends Array<VexdElement> {
+	/**
+	 * array methods such as `map`, `slice` and `concat` return plain arrays.
+	 */
+	static get [Symbol.species](): ArrayConstructor {
+		return Array;
+	}
+
+	/**
+	 * creates a collection of VexdElements.
+	 * @param {VexdElement[]} elements - Elements in the collection.
+	 */
+	constructor(elements: VexdElement[] = []) {
+		super();
+		elements.forEach((el) => this.push(el));
+	}
+
+	/**
+	 * returns the elements as a plain array.
+	 * @returns {VexdElement[]}
+	 */
+	toArray(): VexdElement[] {
+		return Array.from(this);
+	}
+
+	/**
+	 * invokes the callback for each element.
+	 * @param {(vex: VexdElement, index: number) => void} callback - Function to call for each element.
+	 * @returns {VexdCollection} The current collection.
+	 */
+	forEach(
+		callback: (vex: VexdElement, index: number, array: VexdElement[]) => void,
+		thisArg?: any
+	): this {
+		super.forEach(callback, thisArg);
+		return this;
+	}
+
+	/**
+	 * returns the elements matching a selector or predicate.
+	 * @param {string | ((vex: VexdElement, index: number) => boolean)} matcher - CSS selector or predicate.
+	 * @returns {VexdCollection} A new collection.
+	 */
+	filter<S extends VexdElement>(
+		predicate: (vex: VexdElement, index: number, array: VexdElement[]) => vex is S,
+		thisArg?: any
+	): S[];
+	filter(matcher: ElementMatcher, thisArg?: any): VexdCollection;
+	filter(matcher: ElementMatcher, thisArg?: any): VexdCollection {
+		const predicate =
+			typeof matcher === "string" ? matcher : matcher.bind(thisArg);
+		return new VexdCollection(
+			super.filter((el, index) => matches(el, index, this, predicate))
+		);
+	}
+
+	/**
+	 * returns the elements NOT matching a selector or predicate.
+	 * @param {string | ((vex: VexdElement, index: number) => boolean)} matcher - CSS selector or predicate.
+	 * @returns {VexdCollection} A new collection.
+	 */
+	not(matcher: ElementMatcher): VexdCollection {
+		return this.filter((el, index) => !matches(el, index, this, matcher));
+	}
+
+	/**
+	 * checks if any element matches a selector or predicate.
+	 * @param {string | ((vex: VexdElement, index: number) => boolean)} matcher - CSS selector or predicate.
+	 * @returns {boolean} True if at least one element matches.
+	 */
+	is(matcher: ElementMatcher): boolean {
+		return this.some((el, index) => matches(el, index, this, matcher));
+	}
+
+	/**
+	 * returns the element at an index, negative indices count from the end.
+	 * @param {number} index - Element index.
+	 * @returns {VexdElement | undefined}
+	 */
+	eq(index: number): VexdElement | undefined {
+		return this[index < 0 ? this.length + index : index];
+	}
+
+	/**
+	 * returns the first element.
+	 * @returns {VexdElement | undefined}
+	 */
+	first(): VexdElement | undefined {
+		return this.eq(0);
+	}
+
+	/**
+	 * returns the last element.
+	 * @returns {VexdElement | undefined}
+	 */
+	last(): VexdElement | undefined {
+		return this.eq(-1);
+	}
+
+	/**
+	 * gets the inner HTML of the first element.
+	 * @overload
+	 * @returns {string}
+	 */
+	html(): string;
+	/**
+	 * sets the inner HTML of every element.
+	 * @param {string} content - HTML content.
+	 * @returns {VexdCollection} The current collection.
+	 */
+	html(content: string): VexdCollection;
+	html(content?: string): string | VexdCollection {
+		if (content === undefined) return this.first()?.html() ?? "";
+		return this.forEach((el) => el.html(content));
+	}
+
+	/**
+	 * gets the text content of the first element.
+	 * @overload
+	 * @returns {string}
+	 */
+	text(): string;
+	/**
+	 * sets the text content of every element.
+	 * @param {string} content - Text content.
+	 * @returns {VexdCollection} The current collection.
+	 */
+	text(content: string): VexdCollection;
+	text(content?: string): string | VexdCollection {
+		if (content === undefined) return this.first()?.text() ?? "";
+		return this.forEach((el) => el.text(content));
+	}
+
+	/**
+	 * adds an event listener to every element.
+	 * @param {string} eventName - Event name.
+	 * @param {(e: Event) => void} callback - Callback function.
+	 * @returns {() => void} Function to remove every listener.
+	 */
+	event(eventName: string, callback: (e: Event) => void): VoidFunction {
+		return this.combine((el) => el.event(eventName, callback));
+	}
+
+	/**
+	 * delegates an event from every element to its descendants matching
+	 * the selector.
+	 * @param {string} eventName - Event name.
+	 * @param {string} selector - CSS selector the target must match.
+	 * @param {(e: Event, matched: VexdElement) => void} handler - Called with the event and the matched element.
+	 * @returns {() => void} Function to remove every listener.
+	 */
+	delegate(
+		eventName: string,
+		selector: string,
+		handler: (e: Event, matched: VexdElement) => void
+	): VoidFunction {
+		return this.combine((el) => el.delegate(eventName, selector, handler));
+	}
+
+	/**
+	 * adds a one-time event listener to every element.
+	 * @param {string} eventName - Event name.
+	 * @param {(e: Event) => void} callback - Callback function.
+	 * @returns {VexdCollection} The current collection.
+	 */
+	once(eventName: string, callback: (e: Event) => void): VexdCollection {
+		return this.forEach((el) => el.once(eventName, callback));
+	}
+
+	/**
+	 * dispatches a custom event on every element.
+	 * @param {string} eventName - Custom event name.
+	 * @param {{ [key: string]: any }} [details={}] - Event details.
+	 * @returns {VexdCollection} The current collection.
+	 */
+	emit(eventName: string, details: { [key: string]: any } = {}): VexdCollection {
+		return this.forEach((el) => el.emit(eventName, details));
+	}
+
+	/**
+	 * defines a mouseenter and mouseleave event on every element.
+	 * @param mouseEnter
+	 * @param mouseLeave
+	 * @returns {() => void} Function to remove every listener.
+	 */
+	onHover(
+		mouseEnter: (e: Event) => void,
+		mouseLeave: (e: Event) => void
+	): VoidFunction {
+		return this.combine((el) => el.onHover(mouseEnter, mouseLeave));
+	}
+
+	/**
+	 * adds a click listener to every element.
+	 * @param callback
+	 * @returns {() => void} Function to remove every listener.
+	 */
+	onClick(callback: (e: Event) => void): VoidFunction {
+		return this.combine((el) => el.onClick(callback));
+	}
+
+	/**
+	 * adds a change listener to every element.
+	 * @param callback
+	 * @returns {() => void} Function to remove every listener.
+	 */
+	onChange(callback: (e: Event) => void): VoidFunction {
+		return this.combine((el) => el.onChange(callback));
+	}
+
+	/**
+	 * adds a class to every element.
+	 * @param {string} className - Class name to add.
+	 * @returns {VexdCollection} The current collection.
+	 */
+	addClass(className: string): VexdCollection {
+		return this.forEach((el) => el.addClass(className));
+	}
+
+	/**
+	 * removes a class from every element.
+	 * @param {string} className - Class name to remove.
+	 * @returns {VexdCollection} The current collection.
+	 */
+	removeClass(className: string): VexdCollection {
+		return this.forEach((el) => el.removeClass(className));
+	}
+
+	/**
+	 * toggles a class on every element.
+	 * @param {string} className - Class name to toggle.
+	 * @returns {VexdCollection} The current collection.
+	 */
+	toggleClass(className: string): VexdCollection {
+		return this.forEach((el) => el.toggleClass(className));
+	}
+
+	/**
+	 * checks if any element has a specific class.
+	 * @param {string} className - Class name to check.
+	 * @returns {boolean} True if at least one element has the class.
+	 */
+	hasClass(className: string): boolean {
+		return this.some((el) => el.hasClass(className));
+	}
+
+	/**
+	 * checks if any element has an attribute.
+	 * @param {string} attribute - Attribute name.
+	 * @returns {boolean} True if at least one element has the attribute.
+	 */
+	hasAttr(attribute: string): boolean {
+		return this.some((el) => el.hasAttr(attribute));
+	}
+
+	/**
+	 * gets an attribute of the first element.
+	 * @overload
+	 * @param {string} attribute - Attribute name.
+	 * @returns {string}
+	 */
+	attr(attribute: string): string;
+	/**
+	 * sets an attribute on every element.
+	 * @param {string} attribute - Attribute name.
+	 * @param {string} value - Attribute value.
+	 * @returns {VexdCollection} The current collection.
+	 */
+	attr(attribute: string, value: string): VexdCollection;
+	attr(attribute: string, value?: string): string | VexdCollection {
+		if (value === undefined) return this.first()?.attr(attribute) ?? "";
+		return this.forEach((el) => el.attr(attribute, value));
+	}
+
+	/**
+	 * gets a data attribute of the first element.
+	 * @overload
+	 * @param {string} attribute - Data attribute name.
+	 * @returns {string}
+	 */
+	data(attribute: string): string;
+	/**
+	 * sets a data attribute on every element.
+	 * @param {string} attribute - Data attribute name.
+	 * @param {string} value - Data attribute value.
+	 * @returns {VexdCollection} The current collection.
+	 */
+	data(attribute: string, value: string): VexdCollection;
+	data(attribute: string, value?: string): string | VexdCollection {
+		if (value === undefined) return this.first()?.data(attribute) ?? "";
+		return this.forEach((el) => el.data(attribute, value));
+	}
+
+	/**
+	 * gets an inline style property of the first element.
+	 * @overload
+	 * @param {string} property - CSS property name.
+	 * @returns {string}
+	 */
+	style(property: string): string;
+	/**
+	 * sets an inline style property on every element.
+	 * @param {string} property - CSS property name.
+	 * @param {string} value - CSS property value.
+	 * @returns {VexdCollection} The current collection.
+	 */
+	style(property: string, value: string): VexdCollection;
+	style(property: string, value?: string): string | VexdCollection {
+		if (value === undefined) return this.first()?.style(property) ?? "";
+		return this.forEach((el) => el.style(property, value));
+	}
+
+	/**
+	 * gets a native property of the first element.
+	 * @overload
+	 * @template T
+	 * @param {keyof T} propertyName - The property name.
+	 * @returns {T[keyof T] | undefined}
+	 */
+	prop<T>(propertyName: keyof T): T[keyof T] | undefined;
+	/**
+	 * sets a native property on every element.
+	 * @template T
+	 * @param {keyof T} propertyName - The property name.
+	 * @param {T[keyof T]} value - The new value.
+	 * @returns {VexdCollection} The current collection.
+	 */
+	prop<T>(propertyName: keyof T, value: T[keyof T]): VexdCollection;
+	prop<T>(
+		propertyName: keyof T,
+		value?: T[keyof T]
+	): T[keyof T] | undefined | VexdCollection {
+		if (value === undefined) return this.first()?.prop<T>(propertyName);
+		return this.forEach((el) => el.prop<T>(propertyName, value));
+	}
+
+	/**
+	 * gets the value of the first element.
+	 * @overload
+	 * @returns {string}
+	 */
+	value(): string;
+	/**
+	 * sets the value of every element.
+	 * @param {string} value - New value.
+	 * @returns {VexdCollection} The current collection.
+	 */
+	value(value: string): VexdCollection;
+	value(value?: string): string | VexdCollection {
+		if (value === undefined) return this.first()?.value() ?? "";
+		return this.forEach((el) => el.value(value));
+	}
+
+	/**
+	 * gets an aria attribute of the first element.
+	 * @overload
+	 * @param attribute
+	 */
+	aria(attribute: string): string;
+	/**
+	 * sets an aria attribute on every element.
+	 * @param attribute
+	 * @param value
+	 * @returns {VexdCollection}
+	 */
+	aria(attribute: string, value: string): VexdCollection;
+	aria(attribute: string, value?: string): string | VexdCollection {
+		if (value === undefined) return this.first()?.aria(attribute) ?? "";
+		return this.forEach((el) => el.aria(attribute, value));
+	}
+
+	/**
+	 * adds the CSS declaration to every element's style.
+	 * @param cssDeclaration
+	 * @returns {VexdCollection}
+	 */
+	css(cssDeclaration: Partial<CSSStyleDeclaration>): VexdCollection {
+		return this.forEach((el) => el.css(cssDeclaration));
+	}
+
+	/**
+	 * adds a class to every element for a specified time (ms) or until a promise resolves.
+	 * @param {string} className - Class name to add.
+	 * @param {number | Promise<any>} duration - Duration in ms or a promise.
+	 * @returns {VexdCollection} The current collection.
+	 */
+	timedClass(className: string, duration: number | Promise<any>): VexdCollection {
+		return this.forEach((el) => el.timedClass(className, duration));
+	}
+
+	/**
+	 * sets the disabled property of every element.
+	 * @param predicate
+	 * @returns {VexdCollection}
+	 */
+	disable(predicate?: boolean): VexdCollection {
+		return this.forEach((el) => el.disable(predicate));
+	}
+
+	/**
+	 * sets or removes the inert attribute on every element.
+	 * @param {boolean} [value=true] - Whether the elements are inert.
+	 * @returns {VexdCollection}
+	 */
+	inert(value: boolean = true): VexdCollection {
+		return this.forEach((el) => el.inert(value));
+	}
+
+	/**
+	 * animates every element with the Web Animations API.
+	 * @param {Keyframe[] | PropertyIndexedKeyframes} keyframes - Keyframes to animate through.
+	 * @param {VexdAnimationOptions} [options] - Animation options.
+	 * @returns {Promise<VexdCollection>} Resolves when every animation finishes or is cancelled.
+	 */
+	animate(
+		keyframes: Keyframe[] | PropertyIndexedKeyframes,
+		options?: VexdAnimationOptions
+	): Promise<VexdCollection> {
+		return this.settle((el) => el.animate(keyframes, options));
+	}
+
+	/**
+	 * fades every element in.
+	 * @param {VexdAnimationOptions} [options] - Animation options.
+	 * @returns {Promise<VexdCollection>} Resolves when every animation finishes or is cancelled.
+	 */
+	fadeIn(options?: VexdAnimationOptions): Promise<VexdCollection> {
+		return this.settle((el) => el.fadeIn(options));
+	}
+
+	/**
+	 * fades every element out and hides it.
+	 * @param {VexdAnimationOptions} [options] - Animation options.
+	 * @returns {Promise<VexdCollection>} Resolves when every animation finishes or is cancelled.
+	 */
+	fadeOut(options?: VexdAnimationOptions): Promise<VexdCollection> {
+		return this.settle((el) => el.fadeOut(options));
+	}
+
+	/**
+	 * reveals every element by expanding its height.
+	 * @param {VexdAnimationOptions} [options] - Animation options.
+	 * @returns {Promise<VexdCollection>} Resolves when every animation finishes or is cancelled.
+	 */
+	slideDown(options?: VexdAnimationOptions): Promise<VexdCollection> {
+		return this.settle((el) => el.slideDown(options));
+	}
+
+	/**
+	 * collapses every element and hides it.
+	 * @param {VexdAnimationOptions} [options] - Animation options.
+	 * @returns {Promise<VexdCollection>} Resolves when every animation finishes or is cancelled.
+	 */
+	slideUp(options?: VexdAnimationOptions): Promise<VexdCollection> {
+		return this.settle((el) => el.slideUp(options));
+	}
+
+	/**
+	 * shakes every element horizontally.
+	 * @param {VexdAnimationOptions} [options] - Animation options.
+	 * @returns {Promise<VexdCollection>} Resolves when every animation finishes or is cancelled.
+	 */
+	shake(options?: VexdAnimationOptions): Promise<VexdCollection> {
+		return this.settle((el) => el.shake(options));
+	}
+
+	/**
+	 * cancels every animation running on the elements.
+	 * @returns {VexdCollection}
+	 */
+	stopAnimations(): VexdCollection {
+		return this.forEach((el) => el.stopAnimations());
+	}
+
+	/**
+	 * appends content to every element, nodes are cloned for every element
+	 * but the last.
+	 * @param el
+	 * @returns {VexdCollection}
+	 */
+	add(el: HTMLElement | string | VexdElement): VexdCollection {
+		if (typeof el === "string") return this.forEach((target) => target.add(el));
+		const node = el instanceof HTMLElement ? el : el.native();
+		return this.forEach((target, index) =>
+			target.add(index === this.length - 1 ? node : (node.cloneNode(true) as HTMLElement))
+		);
+	}
+
+	/**
+	 * empties every element.
+	 * @returns {VexdCollection}
+	 */
+	empty(): VexdCollection {
+		return this.forEach((el) => el.empty());
+	}
+
+	/**
+	 * keeps the text content of every element in sync with a state.
+	 * @param source - State to bind to.
+	 * @param select - Optional selector over the state's value.
+	 * @returns {() => void} Function to remove every binding.
+	 */
+	bindText<T, V = T>(source: VexdState<T>, select?: (state: T) => V): VoidFunction {
+		return this.combine((el) => el.bindText(source, select));
+	}
+
+	/**
+	 * keeps the inner HTML of every element in sync with a state, the value
+	 * is NOT escaped.
+	 * @param source - State to bind to.
+	 * @param select - Optional selector over the state's value.
+	 * @returns {() => void} Function to remove every binding.
+	 */
+	bindHtml<T, V = T>(source: VexdState<T>, select?: (state: T) => V): VoidFunction {
+		return this.combine((el) => el.bindHtml(source, select));
+	}
+
+	/**
+	 * keeps an attribute of every element in sync with a state.
+	 * @param attribute - Attribute name.
+	 * @param source - State to bind to.
+	 * @param select - Optional selector over the state's value.
+	 * @returns {() => void} Function to remove every binding.
+	 */
+	bindAttr<T, V = T>(
+		attribute: string,
+		source: VexdState<T>,
+		select?: (state: T) => V
+	): VoidFunction {
+		return this.combine((el) => el.bindAttr(attribute, source, select));
+	}
+
+	/**
+	 * toggles a class on every element based on the truthiness of a state.
+	 * @param className - Class name to toggle.
+	 * @param source - State to bind to.
+	 * @param select - Optional selector over the state's value.
+	 * @returns {() => void} Function to remove every binding.
+	 */
+	bindClass<T, V = T>(
+		className: string,
+		source: VexdState<T>,
+		select?: (state: T) => V
+	): VoidFunction {
+		return this.combine((el) => el.bindClass(className, source, select));
+	}
+
+	/**
+	 * keeps an inline style property of every element in sync with a state.
+	 * @param property - CSS property name.
+	 * @param source - State to bind to.
+	 * @param select - Optional selector over the state's value.
+	 * @returns {() => void} Function to remove every binding.
+	 */
+	bindStyle<T, V = T>(
+		property: string,
+		source: VexdState<T>,
+		select?: (state: T) => V
+	): VoidFunction {
+		return this.combine((el) => el.bindStyle(property, source, select));
+	}
+
+	/**
+	 * keeps a native property of every element in sync with a state.
+	 * @param propertyName - The property name.
+	 * @param source - State to bind to.
+	 * @param select - Optional selector over the state's value.
+	 * @returns {() => void} Function to remove every binding.
+	 */
+	bindProp<T, V = T>(
+		propertyName: string,
+		source: VexdState<T>,
+		select?: (state: T) => V
+	): VoidFunction {
+		return this.combine((el) => el.bindProp(propertyName, source, select));
+	}
+
+	/**
+	 * registers a disposer with the scope of every element, it runs once,
+	 * when the first of them is disposed or removed.
+	 * @param {() => void} disposer - Function cleaning up an effect.
+	 * @returns {VexdCollection}
+	 */
+	own(disposer: VoidFunction): VexdCollection {
+		let disposed = false;
+		const disposeOnce = () => {
+			if (disposed) return;
+			disposed = true;
+			disposer();
+		};
+		return this.forEach((el) => el.own(disposeOnce));
+	}
+
+	/**
+	 * disposes the effects owned by every element and its descendants.
+	 * @returns {VexdCollection}
+	 */
+	dispose(): VexdCollection {
+		return this.forEach((el) => el.dispose());
+	}
+
+	/**
+	 * removes the bindings and owned effects registered on every element.
+	 * @returns {VexdCollection}
+	 */
+	unbind(): VexdCollection {
+		return this.forEach((el) => el.unbind());
+	}
+
+	/**
+	 * removes every element from the DOM.
+	 * @overload
+	 */
+	remove(): void;
+	/**
+	 * removes the descendants of every element matching the selector.
+	 * @param selector
+	 */
+	remove(selector: string): void;
+	remove(selector?: string): void {
+		this.forEach((el) => (selector ? el.remove(selector) : el.remove()));
+	}
+
+	/**
+	 * collects the disposers returned for each element into one.
+	 */
+	private combine(register: (vex: VexdElement) => VoidFunction): VoidFunction {
+		const disposers = this.map(register);
+		return () => disposers.forEach((dispose) => dispose());
+	}
+
+	/**
+	 * waits for the promises started for each element.
+	 */
+	private settle(
+		start: (vex: VexdElement) => Promise<unknown>
+	): Promise<VexdCollection> {
+		return Promise.all(this.map(start)).then(() => this);
+	}
+}
+
+function matches(
+	vex: VexdElement,
+	index: number,
+	array: VexdElement[],
+	matcher: ElementMatcher
+): boolean {
+	return typeof matcher === "string"
+		? vex.native().matches(matcher)
+		: !!matcher(vex, index, array);
+}
@@ -0,0 +1,272 @@
+/**
+ * @file vexd-component.ts
+ * @description Custom elements with state backed props, optional shadow DOM and scoped effects.
+ */
+
+import { observeShadowRoot, VexdElement } from "./vexd-element";
+import { VexdState } from "./vexd-state";
+
+type PropKind = "string" | "number" | "boolean" | "json";
+
+export interface VexdPropDefinition<T> {
+	default: T;
+	/** how the attribute is parsed, inferred from the default when omitted */
+	type?: PropKind;
+	/** attribute name, defaults to the prop name in kebab-case, false to disable */
+	attribute?: string | false;
+	/** write changes back to the attribute (defaults to true) */
+	reflect?: boolean;
+}
+
+/**
+ * props keyed by name, a string, number or boolean is shorthand for its
+ * default value
+ */
+export type VexdPropsDefinition = Record<
+	string,
+	VexdPropDefinition<any> | string | number | boolean
+>;
+
+type PropValue<D> = D extends VexdPropDefinition<infer T>
+	? T
+	: D extends boolean
+	? boolean
+	: D extends number
+	? number
+	: string;
+
+export type VexdProps<P extends VexdPropsDefinition> = {
+	[K in keyof P]: VexdState<PropValue<P[K]>>;
+};
+
+export interface VexdComponentOptions<P extends VexdPropsDefinition> {
+	props?: P;
+	/** css added to the shadow root, or once to the document without shadow DOM */
+	styles?: string | string[];
+	/** attach a shadow root so styles are scoped and `<slot>`s work (defaults to false) */
+	shadow?: boolean | ShadowRootMode;
+	/**
+	 * called each time the element is connected, effects registered on the
+	 * host and bindings in the returned template are disposed on disconnect
+	 */
+	setup?: (
+		host: VexdElement,
+		props: VexdProps<P>
+	) => VexdElement | Node | null | void;
+}
+
+export interface VexdComponentElement<P extends VexdPropsDefinition> extends HTMLElement {
+	readonly props: VexdProps<P>;
+}
+
+interface NormalizedProp {
+	name: string;
+	kind: PropKind;
+	defaultValue: unknown;
+	attribute: string | null;
+	reflect: boolean;
+}
+
+const toKebabCase = (name: string) =>
+	name.replace(/[A-Z]/g, (letter) => `-${letter.toLowerCase()}`);
+
+function normalizeProp(name: string, definition: VexdPropsDefinition[string]): NormalizedProp {
+	const options: VexdPropDefinition<any> =
+		typeof definition === "object" && definition !== null
+			? definition
+			: { default: definition };
+	const inferred = typeof options.default;
+	const kind: PropKind =
+		options.type ??
+		(inferred === "boolean" || inferred === "number" || inferred === "string"
+			? inferred
+			: "json");
+	return {
+		name,
+		kind,
+		defaultValue: options.default,
+		attribute: options.attribute === false ? null : options.attribute ?? toKebabCase(name),
+		reflect: options.reflect ?? true,
+	};
+}
+
+function parseAttribute(prop: NormalizedProp, value: string | null): unknown {
+	if (prop.kind === "boolean") return value !== null;
+	if (value === null) return prop.defaultValue;
+	if (prop.kind === "number") return value === "" ? prop.defaultValue : Number(value);
+	if (prop.kind === "json") {
+		try {
+			return JSON.parse(value);
+		} catch {
+			return prop.defaultValue;
+		}
+	}
+	return value;
+}
+
+function serializeAttribute(prop: NormalizedProp, value: unknown): string | null {
+	if (value === null || value === undefined) return null;
+	if (prop.kind === "boolean") return value ? "" : null;
+	if (prop.kind === "json") return JSON.stringify(value);
+	return String(value);
+}
+
+/**
+ * adds styles for light DOM components once per tag name
+ */
+function addDocumentStyles(tagName: string, css: string): void {
+	if (document.head.querySelector(`style[data-vexd-component="${tagName}"]`)) return;
+	const style = document.createElement("style");
+	style.setAttribute("data-vexd-component", tagName);
+	style.textContent = css;
+	document.head.appendChild(style);
+}
+
+/**
+ * defines a property on the element prototype that reads and writes the
+ * state behind a prop
+ */
+function definePropAccessor<E extends HTMLElement>(
+	prototype: E,
+	name: string,
+	stateOf: (el: E) => VexdState<unknown>
+): void {
+	Object.defineProperty(prototype, name, {
+		configurable: true,
+		enumerable: true,
+		get(this: E) {
+			return stateOf(this).state;
+		},
+		set(this: E, value: unknown) {
+			stateOf(this).setState(value);
+		},
+	});
+}
+
+/**
+ * registers a custom element whose props are states, reflected to and
+ * observed from attributes.
+ * @param tagName - Custom element name, must contain a hyphen.
+ * @param options - Props, styles, shadow DOM and setup.
+ * @returns The registered element class.
+ * @throws Will throw an error if the tag name is already defined.
+ */
+export function defineComponent<P extends VexdPropsDefinition = {}>(
+	tagName: string,
+	options: VexdComponentOptions<P> = {}
+): { new (): VexdComponentElement<P> } {
+	if (customElements.get(tagName)) {
+		throw new Error(`vexd-js: a custom element named <${tagName}> is already defined`);
+	}
+	const props = Object.keys(options.props ?? {}).map((name) =>
+		normalizeProp(name, options.props![name])
+	);
+	const byAttribute = new Map<string, NormalizedProp>();
+	props.forEach((prop) => {
+		if (prop.attribute) byAttribute.set(prop.attribute, prop);
+	});
+	const css = ([] as string[]).concat(options.styles ?? []).join("\n");
+	const shadowMode: ShadowRootMode | null =
+		options.shadow === true ? "open" : options.shadow || null;
+
+	class Component extends HTMLElement {
+		static get observedAttributes(): string[] {
+			return Array.from(byAttribute.keys());
+		}
+
+		readonly props: VexdProps<P>;
+		/** the prop states keyed by prop name, the same object as `props` */
+		readonly states: Record<string, VexdState<unknown>> = {};
+		private readonly root: HTMLElement | ShadowRoot;
+		private rendered: Node[] = [];
+		private reflecting = false;
+
+		constructor() {
+			super();
+			props.forEach((prop) => {
+				this.states[prop.name] = new VexdState<unknown>(prop.defaultValue);
+			});
+			this.props = this.states as VexdProps<P>;
+			if (shadowMode) {
+				const shadowRoot = this.attachShadow({ mode: shadowMode });
+				observeShadowRoot(shadowRoot);
+				this.root = shadowRoot;
+			} else {
+				this.root = this;
+			}
+
+			// properties assigned before the element was upgraded shadow the accessors
+			props.forEach((prop) => {
+				if (!Object.prototype.hasOwnProperty.call(this, prop.name)) return;
+				const value: unknown = Reflect.get(this, prop.name);
+				Reflect.deleteProperty(this, prop.name);
+				this.prop(prop).setState(value);
+			});
+		}
+
+		connectedCallback(): void {
+			const host = new VexdElement(this);
+			props.forEach((prop) => {
+				if (!prop.attribute || !prop.reflect) return;
+				const attribute = prop.attribute;
+				host.own(
+					this.prop(prop).sideEffect((value) => {
+						const serialized = serializeAttribute(prop, value);
+						if (this.getAttribute(attribute) === serialized) return;
+						this.reflecting = true;
+						try {
+							if (serialized === null) this.removeAttribute(attribute);
+							else this.setAttribute(attribute, serialized);
+						} finally {
+							this.reflecting = false;
+						}
+					}, true)
+				);
+			});
+
+			if (css && shadowMode) {
+				const style = document.createElement("style");
+				style.textContent = css;
+				this.mount(style);
+			} else if (css) {
+				addDocumentStyles(tagName, css);
+			}
+
+			const content = options.setup?.(host, this.props);
+			if (content) this.mount(content instanceof VexdElement ? content.native() : content);
+		}
+
+		disconnectedCallback(): void {
+			new VexdElement(this).unbind();
+			this.rendered.forEach((node) => {
+				if (node instanceof HTMLElement) new VexdElement(node).dispose();
+				node.parentNode?.removeChild(node);
+			});
+			this.rendered = [];
+		}
+
+		attributeChangedCallback(name: string, _previous: string | null, value: string | null): void {
+			const prop = byAttribute.get(name);
+			if (!prop || this.reflecting) return;
+			this.prop(prop).setState(parseAttribute(prop, value));
+		}
+
+		private prop(prop: NormalizedProp): VexdState<unknown> {
+			return this.states[prop.name];
+		}
+
+		private mount(node: Node): void {
+			this.rendered = this.rendered.concat(
+				node instanceof DocumentFragment ? Array.from(node.childNodes) : [node]
+			);
+			this.root.appendChild(node);
+		}
+	}
+
+	props.forEach((prop) =>
+		definePropAccessor(Component.prototype, prop.name, (el) => el.states[prop.name])
+	);
+
+	customElements.define(tagName, Component);
+	return Component as unknown as { new (): VexdComponentElement<P> };
+}
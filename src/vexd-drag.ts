@@ -0,0 +1,392 @@
+/**
+ * @file vexd-drag.ts
+ * @description Pointer based dragging and sortable lists used by VexdElement.
+ */
+
+import { announce } from "./vexd-a11y";
+import type { VexdStateList } from "./vexd-state";
+
+export interface VexdDragInfo {
+	/** offset from the element's original position */
+	x: number;
+	y: number;
+	event: PointerEvent;
+}
+
+export interface VexdDragOptions {
+	/** only move along one axis */
+	axis?: "x" | "y";
+	/** keep the element inside its parent, an element or a rectangle in viewport coordinates */
+	containment?: "parent" | HTMLElement | DOMRect;
+	/** snap the offset to a grid, a single size or [x, y] */
+	grid?: number | [number, number];
+	/** selector for the part of the element that starts a drag */
+	handle?: string;
+	/** return false to cancel the drag */
+	onStart?: (info: VexdDragInfo) => void | boolean;
+	onMove?: (info: VexdDragInfo) => void;
+	onEnd?: (info: VexdDragInfo) => void;
+}
+
+export interface VexdSortableOptions {
+	/** direction the items are laid out in (defaults to "vertical") */
+	orientation?: "vertical" | "horizontal";
+	/** selector for the part of an item that starts a drag */
+	handle?: string;
+	/** called after an item has been moved */
+	onSort?: (from: number, to: number) => void;
+}
+
+const DRAGGING_CLASS = "vexd-dragging";
+const DROP_TARGET_CLASS = "vexd-drop-target";
+
+/** pointer movement needed before a press on a sortable item becomes a drag */
+const DRAG_THRESHOLD = 4;
+
+/** presses on these keep their default action instead of starting a drag */
+const INTERACTIVE_SELECTOR =
+	"input, textarea, select, button, a[href], label, [contenteditable]:not([contenteditable='false'])";
+
+interface Bounds {
+	minX: number;
+	maxX: number;
+	minY: number;
+	maxY: number;
+}
+
+function snap(value: number, size: number): number {
+	return size > 0 ? Math.round(value / size) * size : value;
+}
+
+function clamp(value: number, min: number, max: number): number {
+	return Math.min(Math.max(value, min), max);
+}
+
+/**
+ * the offsets the element can move by while staying inside the
+ * containment rectangle
+ */
+function dragBounds(
+	el: HTMLElement,
+	containment: VexdDragOptions["containment"],
+	offset: { x: number; y: number }
+): Bounds | null {
+	if (!containment) return null;
+	const area =
+		containment === "parent"
+			? el.parentElement?.getBoundingClientRect()
+			: containment instanceof HTMLElement
+			? containment.getBoundingClientRect()
+			: containment;
+	if (!area) return null;
+	const rect = el.getBoundingClientRect();
+	const left = rect.left - offset.x;
+	const top = rect.top - offset.y;
+	return {
+		minX: area.left - left,
+		maxX: area.right - (left + rect.width),
+		minY: area.top - top,
+		maxY: area.bottom - (top + rect.height),
+	};
+}
+
+/**
+ * sets touch-action: none on the elements a drag starts from, without it
+ * the browser takes over touch drags to scroll. `add` skips elements it
+ * has already seen and `restore` puts back the previous values.
+ */
+function touchActions() {
+	const previous = new Map<HTMLElement, string>();
+	return {
+		add(targets: HTMLElement[]) {
+			targets.forEach((target) => {
+				if (previous.has(target)) return;
+				previous.set(target, target.style.touchAction);
+				target.style.touchAction = "none";
+			});
+		},
+		restore() {
+			previous.forEach((touchAction, target) => (target.style.touchAction = touchAction));
+			previous.clear();
+		},
+	};
+}
+
+/**
+ * routes the pointer's events to the element until the returned function
+ * releases it, so a drag that leaves the window or crosses an iframe
+ * keeps its events
+ */
+function capturePointer(el: HTMLElement, pointerId: number): VoidFunction {
+	if (typeof el.setPointerCapture !== "function") return () => {};
+	try {
+		el.setPointerCapture(pointerId);
+	} catch {
+		// the pointer is no longer active
+		return () => {};
+	}
+	return () => {
+		if (el.hasPointerCapture(pointerId)) el.releasePointerCapture(pointerId);
+	};
+}
+
+/**
+ * moves an element with the pointer using a translate transform, the
+ * offset is kept between drags.
+ * @param el - Element to drag.
+ * @param options - Axis, containment, grid, handle and callbacks.
+ * @returns A function removing the drag behaviour.
+ */
+export function draggable(el: HTMLElement, options: VexdDragOptions = {}): VoidFunction {
+	const [gridX, gridY] = Array.isArray(options.grid)
+		? options.grid
+		: [options.grid ?? 0, options.grid ?? 0];
+	const offset = { x: 0, y: 0 };
+	let stopDrag: VoidFunction | null = null;
+	const touch = touchActions();
+	const prepareHandles = () =>
+		touch.add(
+			options.handle ? (Array.from(el.querySelectorAll(options.handle)) as HTMLElement[]) : [el]
+		);
+	prepareHandles();
+	// handles rendered later need touch-action too
+	const observer = options.handle ? new MutationObserver(prepareHandles) : null;
+	observer?.observe(el, { childList: true, subtree: true });
+
+	const onPointerDown = (e: PointerEvent) => {
+		if (e.button !== 0 || stopDrag) return;
+		const target = e.target as Element;
+		const handle = options.handle ? target.closest(options.handle) : el;
+		if (!handle || !el.contains(handle)) return;
+		const interactive = target.closest(INTERACTIVE_SELECTOR);
+		if (interactive && interactive !== handle && handle.contains(interactive)) return;
+
+		const origin = { x: offset.x, y: offset.y };
+		if (options.onStart?.({ ...origin, event: e }) === false) return;
+		e.preventDefault();
+		const release = capturePointer(el, e.pointerId);
+		const bounds = dragBounds(el, options.containment, offset);
+		el.classList.add(DRAGGING_CLASS);
+
+		const onPointerMove = (move: PointerEvent) => {
+			if (move.pointerId !== e.pointerId) return;
+			let x = options.axis === "y" ? origin.x : origin.x + move.clientX - e.clientX;
+			let y = options.axis === "x" ? origin.y : origin.y + move.clientY - e.clientY;
+			x = snap(x, gridX);
+			y = snap(y, gridY);
+			if (bounds) {
+				x = clamp(x, bounds.minX, bounds.maxX);
+				y = clamp(y, bounds.minY, bounds.maxY);
+			}
+			offset.x = x;
+			offset.y = y;
+			el.style.transform = `translate(${x}px, ${y}px)`;
+			options.onMove?.({ x, y, event: move });
+		};
+
+		const onPointerUp = (up: PointerEvent) => {
+			if (up.pointerId !== e.pointerId) return;
+			stopDrag?.();
+			options.onEnd?.({ x: offset.x, y: offset.y, event: up });
+		};
+
+		document.addEventListener("pointermove", onPointerMove);
+		document.addEventListener("pointerup", onPointerUp);
+		document.addEventListener("pointercancel", onPointerUp);
+		stopDrag = () => {
+			document.removeEventListener("pointermove", onPointerMove);
+			document.removeEventListener("pointerup", onPointerUp);
+			document.removeEventListener("pointercancel", onPointerUp);
+			release();
+			el.classList.remove(DRAGGING_CLASS);
+			stopDrag = null;
+		};
+	};
+
+	el.addEventListener("pointerdown", onPointerDown);
+	return () => {
+		el.removeEventListener("pointerdown", onPointerDown);
+		observer?.disconnect();
+		stopDrag?.();
+		touch.restore();
+	};
+}
+
+/**
+ * lets the items of a container be reordered by dragging them, or with the
+ * keyboard by pressing space or enter on an item, moving it with the
+ * arrow keys and pressing space or enter again (escape cancels). the
+ * container's items must be rendered from the list in order, e.g. with
+ * `renderList`, every reorder is applied with `list.move`.
+ * @param container - Element containing the items.
+ * @param itemSelector - CSS selector for the items.
+ * @param list - List the items are rendered from.
+ * @param options - Orientation, handle and sort callback.
+ * @returns A function removing the sorting behaviour.
+ */
+export function sortable<T>(
+	container: HTMLElement,
+	itemSelector: string,
+	list: VexdStateList<T>,
+	options: VexdSortableOptions = {}
+): VoidFunction {
+	const vertical = options.orientation !== "horizontal";
+	const items = () =>
+		(Array.from(container.querySelectorAll(itemSelector)) as HTMLElement[]).filter(
+			(item) => item.parentElement === container
+		);
+	const itemOf = (target: EventTarget | null) =>
+		items().find((item) => item.contains(target as Node)) ?? null;
+
+	let grabbed: { item: HTMLElement; from: number } | null = null;
+	let stopDrag: VoidFunction | null = null;
+
+	const reorder = (from: number, to: number, refocus: boolean) => {
+		if (from === to) return;
+		list.move(from, to);
+		options.onSort?.(from, to);
+		if (!refocus) return;
+		// rendering may be batched, focus the item once it is in place
+		Promise.resolve().then(() => {
+			const moved = items()[to];
+			moved?.focus();
+			if (grabbed && moved) grabbed.item = moved;
+		});
+	};
+
+	const touch = touchActions();
+	const prepareItems = () => {
+		items().forEach((item) => {
+			if (!item.hasAttribute("tabindex")) item.setAttribute("tabindex", "0");
+			if (!item.hasAttribute("aria-roledescription")) {
+				item.setAttribute("aria-roledescription", "sortable item");
+			}
+			touch.add(
+				options.handle
+					? (Array.from(item.querySelectorAll(options.handle)) as HTMLElement[])
+					: [item]
+			);
+		});
+	};
+	prepareItems();
+	const observer = new MutationObserver(prepareItems);
+	// handles rendered inside existing items need touch-action too
+	observer.observe(container, { childList: true, subtree: !!options.handle });
+
+	const onKeyDown = (e: KeyboardEvent) => {
+		const item = itemOf(e.target);
+		if (!item || item !== e.target) return;
+		const all = items();
+		const index = all.indexOf(item);
+
+		if (e.key === " " || e.key === "Enter") {
+			e.preventDefault();
+			if (grabbed) {
+				grabbed.item.setAttribute("aria-pressed", "false");
+				announce(`Dropped at position ${index + 1} of ${all.length}`);
+				grabbed = null;
+			} else {
+				grabbed = { item, from: index };
+				item.setAttribute("aria-pressed", "true");
+				announce(`Grabbed, position ${index + 1} of ${all.length}`);
+			}
+			return;
+		}
+		if (!grabbed) return;
+		if (e.key === "Escape") {
+			e.preventDefault();
+			const { from } = grabbed;
+			item.setAttribute("aria-pressed", "false");
+			grabbed = null;
+			reorder(index, from, true);
+			announce("Reorder cancelled");
+			return;
+		}
+		const previousKey = vertical ? "ArrowUp" : "ArrowLeft";
+		const nextKey = vertical ? "ArrowDown" : "ArrowRight";
+		let to = index;
+		if (e.key === previousKey) to = Math.max(0, index - 1);
+		else if (e.key === nextKey) to = Math.min(all.length - 1, index + 1);
+		else return;
+		e.preventDefault();
+		reorder(index, to, true);
+		announce(`Moved to position ${to + 1} of ${all.length}`);
+	};
+
+	const onPointerDown = (e: PointerEvent) => {
+		if (e.button !== 0 || stopDrag) return;
+		const item = itemOf(e.target);
+		if (!item) return;
+		if (options.handle) {
+			const handle = (e.target as Element).closest(options.handle);
+			if (!handle || !item.contains(handle)) return;
+		}
+		const from = items().indexOf(item);
+		let dragging = false;
+		let to = from;
+		let release: VoidFunction | null = null;
+
+		const targetIndex = (move: PointerEvent) => {
+			const position = vertical ? move.clientY : move.clientX;
+			return items()
+				.filter((other) => other !== item)
+				.filter((other) => {
+					const rect = other.getBoundingClientRect();
+					const middle = vertical ? rect.top + rect.height / 2 : rect.left + rect.width / 2;
+					return middle < position;
+				}).length;
+		};
+
+		const onPointerMove = (move: PointerEvent) => {
+			if (move.pointerId !== e.pointerId) return;
+			const dx = move.clientX - e.clientX;
+			const dy = move.clientY - e.clientY;
+			if (!dragging) {
+				if (Math.abs(dx) < DRAG_THRESHOLD && Math.abs(dy) < DRAG_THRESHOLD) return;
+				dragging = true;
+				release = capturePointer(item, e.pointerId);
+				item.classList.add(DRAGGING_CLASS);
+			}
+			item.style.transform = vertical ? `translateY(${dy}px)` : `translateX(${dx}px)`;
+			to = targetIndex(move);
+			const others = items().filter((other) => other !== item);
+			others.forEach((other, i) => other.classList.toggle(DROP_TARGET_CLASS, i === to));
+		};
+
+		const onPointerUp = (up: PointerEvent) => {
+			if (up.pointerId !== e.pointerId) return;
+			const moved = dragging;
+			stopDrag?.();
+			if (moved) reorder(from, to, false);
+		};
+
+		// a cancelled drag puts the item back without reordering
+		const onPointerCancel = (cancel: PointerEvent) => {
+			if (cancel.pointerId === e.pointerId) stopDrag?.();
+		};
+
+		document.addEventListener("pointermove", onPointerMove);
+		document.addEventListener("pointerup", onPointerUp);
+		document.addEventListener("pointercancel", onPointerCancel);
+		stopDrag = () => {
+			document.removeEventListener("pointermove", onPointerMove);
+			document.removeEventListener("pointerup", onPointerUp);
+			document.removeEventListener("pointercancel", onPointerCancel);
+			release?.();
+			item.classList.remove(DRAGGING_CLASS);
+			item.style.removeProperty("transform");
+			items().forEach((other) => other.classList.remove(DROP_TARGET_CLASS));
+			stopDrag = null;
+		};
+	};
+
+	container.addEventListener("keydown", onKeyDown);
+	container.addEventListener("pointerdown", onPointerDown);
+	return () => {
+		container.removeEventListener("keydown", onKeyDown);
+		container.removeEventListener("pointerdown", onPointerDown);
+		observer.disconnect();
+		stopDrag?.();
+		touch.restore();
+	};
+}
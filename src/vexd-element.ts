@@ -3,6 +3,166 @@
  * @description A lightweight DOM utility class for chainable element manipulation, animations, and reactive signals.
  */
 
+import {
+	inertOutside,
+	rovingTabindex,
+	setInert,
+	trapFocus,
+	VexdRovingOptions,
+} from "./vexd-a11y";
+import {
+	fadeIn,
+	fadeOut,
+	runAnimation,
+	scale,
+	shake,
+	slideDown,
+	slideUp,
+	VexdAnimationOptions,
+} from "./vexd-animation";
+import { VexdCollection } from "./vexd-collection";
+import {
+	draggable,
+	sortable,
+	VexdDragOptions,
+	VexdSortableOptions,
+} from "./vexd-drag";
+import { effectStore } from "./vexd-hooks";
+import { KeyedEntry, reconcileKeyed } from "./vexd-reconcile";
+import { VexdState, VexdStateList } from "./vexd-state";
+
+type EffectStore = ReturnType<typeof effectStore>;
+
+/**
+ * a listener or observer registered through a VexdElement
+ */
+export interface VexdTrackedEffect {
+	kind: "event" | "observe" | "intersection";
+	target: HTMLElement;
+	/** the event name for listeners */
+	detail?: string;
+}
+
+/**
+ * notified of every tracked effect, returns a function that is called
+ * once the effect has been disposed
+ */
+type EffectTracker = (effect: VexdTrackedEffect) => VoidFunction;
+
+let effectTracker: EffectTracker | null = null;
+
+/**
+ * used by the testing utilities to find leaked listeners and observers
+ * @internal
+ */
+export function setEffectTracker(tracker: EffectTracker | null): void {
+	effectTracker = tracker;
+}
+
+/**
+ * events that do not bubble, delegated listeners for these are added in
+ * the capture phase instead
+ */
+const NON_BUBBLING_EVENTS = ["focus", "blur", "mouseenter", "mouseleave"];
+
+/**
+ * effect scopes are tracked per native node so every VexdElement wrapping
+ * the same element shares them
+ */
+const effectScopes = new WeakMap<HTMLElement, EffectStore>();
+
+/** the number of elements with a scope, removals are ignored while there are none */
+let liveScopes = 0;
+
+let removalObserver: MutationObserver | null = null;
+let observingDocument = false;
+
+/** removed elements waiting for the check whether they were attached again */
+const pendingRemovals = new Set<Element>();
+let removalCheckScheduled = false;
+
+// captured so a fake clock installed by tests cannot hold disposal back
+const scheduleRemovalCheck = typeof setTimeout === "function" ? setTimeout : null;
+
+function scopeOf(el: HTMLElement): EffectStore {
+	let scope = effectScopes.get(el);
+	if (!scope) {
+		scope = effectStore();
+		effectScopes.set(el, scope);
+		liveScopes++;
+		if (!observingDocument && typeof document !== "undefined") {
+			observingDocument = true;
+			observeRemovals(document);
+		}
+	}
+	return scope;
+}
+
+function disposeScope(el: Element): void {
+	const scope = effectScopes.get(el as HTMLElement);
+	if (!scope) return;
+	effectScopes.delete(el as HTMLElement);
+	liveScopes--;
+	const [, dispose] = scope;
+	dispose();
+}
+
+/**
+ * disposes the scopes of an element and of all its descendants
+ */
+function disposeTree(root: Element, includeRoot: boolean): void {
+	if (liveScopes === 0) return;
+	const elements = Array.from(root.querySelectorAll("*"));
+	if (includeRoot) elements.unshift(root);
+	elements.forEach(disposeScope);
+}
+
+/**
+ * disposes the removed elements that are still detached, running after the
+ * current task lets nodes be moved or detached and put back meanwhile
+ */
+function disposeDetached(): void {
+	removalCheckScheduled = false;
+	const removed = Array.from(pendingRemovals);
+	pendingRemovals.clear();
+	removed.forEach((node) => {
+		if (!node.isConnected) disposeTree(node, true);
+	});
+}
+
+/**
+ * watches a tree so scopes of elements removed by any means, not only
+ * through VexdElement, are disposed once they have stayed detached until
+ * the end of the task.
+ */
+function observeRemovals(target: Node): void {
+	if (typeof MutationObserver === "undefined") return;
+	if (!removalObserver) {
+		removalObserver = new MutationObserver((mutations) => {
+			if (liveScopes === 0) return;
+			mutations.forEach((mutation) => {
+				mutation.removedNodes.forEach((node) => {
+					if (node instanceof Element) pendingRemovals.add(node);
+				});
+			});
+			if (pendingRemovals.size === 0 || removalCheckScheduled) return;
+			removalCheckScheduled = true;
+			if (scheduleRemovalCheck) scheduleRemovalCheck(disposeDetached, 0);
+			else disposeDetached();
+		});
+	}
+	removalObserver.observe(target, { childList: true, subtree: true });
+}
+
+/**
+ * disposes scopes of elements removed from a shadow root too, the
+ * document observer does not see into shadow trees
+ * @internal
+ */
+export function observeShadowRoot(root: ShadowRoot): void {
+	observeRemovals(root);
+}
+
 export class VexdElement {
 	private el: HTMLElement;
 
@@ -37,6 +197,16 @@ export class VexdElement {
 		return new VexdElement(found as HTMLElement);
 	}
 
+	/**
+	 * like `select`, but returns null instead of throwing when nothing matches.
+	 * @param {string} selector - CSS selector to search for.
+	 * @returns {VexdElement | null} A new VexdElement instance or null.
+	 */
+	maybe(selector: string): VexdElement | null {
+		const found = this.el.querySelector(selector);
+		return found ? new VexdElement(found as HTMLElement) : null;
+	}
+
 	/**
 	 * returns a new VexdElement instance wrapping the first descendant matching the class name.
 	 * @param className
@@ -49,9 +219,9 @@ export class VexdElement {
 	/**
 	 * gets all descendants matching the class name.
 	 * @param className
-	 * @returns {VexdElement[]}
+	 * @returns {VexdCollection}
 	 */
-	classes(className: string): VexdElement[] {
+	classes(className: string): VexdCollection {
 		return this.all(`.${className}`);
 	}
 
@@ -65,13 +235,15 @@ export class VexdElement {
 	}
 
 	/**
-	 * Returns an array of VexdElement instances for all descendants matching the selector.
+	 * Returns a collection of VexdElement instances for all descendants matching the selector.
 	 * @param {string} selector - CSS selector to search for.
-	 * @returns {VexdElement[]} Array of VexdElement instances.
+	 * @returns {VexdCollection} Collection of VexdElement instances.
 	 */
-	all(selector: string): VexdElement[] {
+	all(selector: string): VexdCollection {
 		const nodeList = this.el.querySelectorAll(selector);
-		return Array.from(nodeList).map((el) => new VexdElement(el as HTMLElement));
+		return new VexdCollection(
+			Array.from(nodeList).map((el) => new VexdElement(el as HTMLElement))
+		);
 	}
 
 	/**
@@ -136,9 +308,38 @@ export class VexdElement {
 	 */
 	event(eventName: string, callback: (e: Event) => void): () => void {
 		this.el.addEventListener(eventName, callback);
-		return () => {
-			this.el.removeEventListener(eventName, callback);
+		return this.track(
+			() => this.el.removeEventListener(eventName, callback),
+			{ kind: "event", detail: eventName }
+		);
+	}
+
+	/**
+	 * adds a single listener to the element that only calls the handler when
+	 * the event target is, or is inside, a descendant matching the selector.
+	 * @param {string} eventName - Event name.
+	 * @param {string} selector - CSS selector the target must match.
+	 * @param {(e: Event, matched: VexdElement) => void} handler - Called with the event and the matched element.
+	 * @returns {() => void} Function to remove the listener.
+	 */
+	delegate(
+		eventName: string,
+		selector: string,
+		handler: (e: Event, matched: VexdElement) => void
+	): () => void {
+		const capture = NON_BUBBLING_EVENTS.includes(eventName);
+		const listener = (e: Event) => {
+			if (!(e.target instanceof Element)) return;
+			const matched = e.target.closest(selector);
+			if (matched && matched !== this.el && this.el.contains(matched)) {
+				handler(e, new VexdElement(matched as HTMLElement));
+			}
 		};
+		this.el.addEventListener(eventName, listener, capture);
+		return this.track(
+			() => this.el.removeEventListener(eventName, listener, capture),
+			{ kind: "event", detail: eventName }
+		);
 	}
 
 	/**
@@ -310,12 +511,12 @@ export class VexdElement {
 	 * Filters descendant elements matching the selector and predicate.
 	 * @param {string} selector - CSS selector.
 	 * @param {(VexdElement: VexdElement) => boolean} predicate - Predicate function.
-	 * @returns {VexdElement[]} Array of VexdElement instances that match the predicate.
+	 * @returns {VexdCollection} Collection of VexdElement instances that match the predicate.
 	 */
 	where(
 		selector: string,
 		predicate: (VexdElement: VexdElement) => boolean
-	): VexdElement[] {
+	): VexdCollection {
 		return this.all(selector).filter((VexdElement) => predicate(VexdElement));
 	}
 
@@ -323,13 +524,13 @@ export class VexdElement {
 	 * filters descendant elements matching the selector that do NOT satisfy the predicate.
 	 * @param {string} selector - CSS selector.
 	 * @param {(VexdElement: VexdElement) => boolean} predicate - Predicate function.
-	 * @returns {VexdElement[]} Array of VexdElement instances that do not match the predicate.
+	 * @returns {VexdCollection} Collection of VexdElement instances that do not match the predicate.
 	 */
 	excluding(
 		selector: string,
 		predicate: (vexEl: VexdElement) => boolean
-	): VexdElement[] {
-		return this.all(selector).filter((vEl) => !predicate(vEl));
+	): VexdCollection {
+		return this.all(selector).not((vEl) => predicate(vEl));
 	}
 
 	/**
@@ -397,7 +598,7 @@ export class VexdElement {
 			attributeFilter: [attribute],
 			attributeOldValue: true,
 		});
-		return () => observer.disconnect();
+		return this.track(() => observer.disconnect(), { kind: "observe" });
 	}
 
 	/**
@@ -418,7 +619,7 @@ export class VexdElement {
 			});
 		}, options);
 		observer.observe(this.el);
-		return () => observer.disconnect();
+		return this.track(() => observer.disconnect(), { kind: "intersection" });
 	}
 
 	/**
@@ -439,6 +640,91 @@ export class VexdElement {
 		return this;
 	}
 
+	/**
+	 * animates the element with the Web Animations API, the final keyframe's
+	 * styles are kept unless `persist` is false. jumps straight to the end
+	 * when the user prefers reduced motion.
+	 * @param {Keyframe[] | PropertyIndexedKeyframes} keyframes - Keyframes to animate through.
+	 * @param {VexdAnimationOptions} [options] - Animation options.
+	 * @returns {Promise<VexdElement>} Resolves with the instance when the animation finishes or is cancelled.
+	 */
+	animate(
+		keyframes: Keyframe[] | PropertyIndexedKeyframes,
+		options?: VexdAnimationOptions
+	): Promise<VexdElement> {
+		return runAnimation(this.el, keyframes, options).finished.then(() => this);
+	}
+
+	/**
+	 * fades the element in, showing it if it is hidden with display: none.
+	 * @param {VexdAnimationOptions} [options] - Animation options.
+	 * @returns {Promise<VexdElement>} Resolves with the instance when the animation finishes or is cancelled.
+	 */
+	fadeIn(options?: VexdAnimationOptions): Promise<VexdElement> {
+		return fadeIn(this.el, options).then(() => this);
+	}
+
+	/**
+	 * fades the element out and hides it with display: none, unless the
+	 * fade is cancelled.
+	 * @param {VexdAnimationOptions} [options] - Animation options.
+	 * @returns {Promise<VexdElement>} Resolves with the instance when the animation finishes or is cancelled.
+	 */
+	fadeOut(options?: VexdAnimationOptions): Promise<VexdElement> {
+		return fadeOut(this.el, options).then(() => this);
+	}
+
+	/**
+	 * reveals the element by expanding its height.
+	 * @param {VexdAnimationOptions} [options] - Animation options.
+	 * @returns {Promise<VexdElement>} Resolves with the instance when the animation finishes or is cancelled.
+	 */
+	slideDown(options?: VexdAnimationOptions): Promise<VexdElement> {
+		return slideDown(this.el, options).then(() => this);
+	}
+
+	/**
+	 * collapses the element's height and hides it with display: none,
+	 * unless the slide is cancelled.
+	 * @param {VexdAnimationOptions} [options] - Animation options.
+	 * @returns {Promise<VexdElement>} Resolves with the instance when the animation finishes or is cancelled.
+	 */
+	slideUp(options?: VexdAnimationOptions): Promise<VexdElement> {
+		return slideUp(this.el, options).then(() => this);
+	}
+
+	/**
+	 * scales the element to a factor, keeping the final transform.
+	 * @param {number} to - Scale factor to animate to.
+	 * @param {VexdAnimationOptions & { from?: number }} [options] - Animation options, `from` defaults to 1.
+	 * @returns {Promise<VexdElement>} Resolves with the instance when the animation finishes or is cancelled.
+	 */
+	scale(
+		to: number,
+		options: VexdAnimationOptions & { from?: number } = {}
+	): Promise<VexdElement> {
+		const { from = 1, ...animationOptions } = options;
+		return scale(this.el, from, to, animationOptions).then(() => this);
+	}
+
+	/**
+	 * shakes the element horizontally.
+	 * @param {VexdAnimationOptions} [options] - Animation options.
+	 * @returns {Promise<VexdElement>} Resolves with the instance when the animation finishes or is cancelled.
+	 */
+	shake(options?: VexdAnimationOptions): Promise<VexdElement> {
+		return shake(this.el, options).then(() => this);
+	}
+
+	/**
+	 * cancels every animation running on the element.
+	 * @returns {VexdElement} The current VexdElement instance.
+	 */
+	stopAnimations(): VexdElement {
+		this.el.getAnimations?.().forEach((animation) => animation.cancel());
+		return this;
+	}
+
 	/**
 	 * equivalent to .appendChild
 	 * @param el
@@ -458,10 +744,12 @@ export class VexdElement {
 	}
 
 	/**
-	 * equivalent to .innerHTML = ""
+	 * equivalent to .innerHTML = "", effects owned by the removed
+	 * descendants are disposed.
 	 * @returns VexdElement
 	 */
 	empty(): VexdElement {
+		disposeTree(this.el, false);
 		this.el.innerHTML = "";
 		return this;
 	}
@@ -488,10 +776,13 @@ export class VexdElement {
 	): VoidFunction {
 		this.el.addEventListener("mouseenter", mouseEnter);
 		this.el.addEventListener("mouseleave", mouseLeave);
-		return () => {
-			this.el.removeEventListener("mouseenter", mouseEnter);
-			this.el.removeEventListener("mouseleave", mouseLeave);
-		};
+		return this.track(
+			() => {
+				this.el.removeEventListener("mouseenter", mouseEnter);
+				this.el.removeEventListener("mouseleave", mouseLeave);
+			},
+			{ kind: "event", detail: "mouseenter/mouseleave" }
+		);
 	}
 
 	/*
@@ -501,7 +792,10 @@ export class VexdElement {
 	 */
 	onClick(callback: (e: Event) => void): VoidFunction {
 		this.el.addEventListener("click", callback);
-		return () => this.el.removeEventListener("click", callback);
+		return this.track(
+			() => this.el.removeEventListener("click", callback),
+			{ kind: "event", detail: "click" }
+		);
 	}
 
 	/**
@@ -511,7 +805,10 @@ export class VexdElement {
 	 */
 	onChange(callback: (e: Event) => void): VoidFunction {
 		this.el.addEventListener("change", callback);
-		return () => this.el.removeEventListener("change", callback);
+		return this.track(
+			() => this.el.removeEventListener("change", callback),
+			{ kind: "event", detail: "change" }
+		);
 	}
 
 	/**
@@ -557,6 +854,7 @@ export class VexdElement {
 	 * @param value
 	 * @returns {VexdElement}
 	 */
+	aria(attribute: string, value: string): VexdElement;
 	aria(attribute: string, value?: string): string | VexdElement {
 		if (value === undefined) {
 			return this.el.getAttribute(`aria-${attribute}`) || "";
@@ -565,6 +863,47 @@ export class VexdElement {
 		return this;
 	}
 
+	/**
+	 * keeps keyboard focus inside the element, e.g. while a modal is open.
+	 * focus moves to the first tabbable descendant and is restored to the
+	 * previously focused element on release.
+	 * @returns {() => void} Function releasing the trap.
+	 */
+	trapFocus(): VoidFunction {
+		return this.track(trapFocus(this.el));
+	}
+
+	/**
+	 * gives a group of items a single tab stop, arrow keys, Home and End
+	 * move focus between them (e.g. menus, toolbars and tab lists).
+	 * @param {string} itemSelector - CSS selector for the items.
+	 * @param {VexdRovingOptions} [options] - Orientation and wrapping.
+	 * @returns {() => void} Function removing the key handling.
+	 */
+	rovingTabindex(itemSelector: string, options?: VexdRovingOptions): VoidFunction {
+		return this.track(rovingTabindex(this.el, itemSelector, options));
+	}
+
+	/**
+	 * makes the element and its descendants inert, so they cannot be
+	 * focused, clicked or read by assistive technology.
+	 * @param {boolean} [value=true] - Whether the element is inert.
+	 * @returns {VexdElement} The current VexdElement instance.
+	 */
+	inert(value: boolean = true): VexdElement {
+		setInert(this.el, value);
+		return this;
+	}
+
+	/**
+	 * makes everything outside the element inert, e.g. the page behind a
+	 * modal.
+	 * @returns {() => void} Function restoring the rest of the page.
+	 */
+	inertOutside(): VoidFunction {
+		return this.track(inertOutside(this.el));
+	}
+
 	/**
 	 * returns the element's position and size.
 	 * @returns {DOMRect}
@@ -583,7 +922,251 @@ export class VexdElement {
 	}
 
 	/**
-	 * removes the element from the DOM.
+	 * subscribes to a state and applies the (optionally selected) value to the
+	 * element, registering the subscription with the element's scope.
+	 * @param source - State to bind to.
+	 * @param select - Optional selector over the state's value.
+	 * @param apply - Applies the selected value to the element.
+	 * @returns {() => void} Function to remove the binding.
+	 */
+	private bind<T, V>(
+		source: VexdState<T>,
+		select: ((state: T) => V) | undefined,
+		apply: (value: V | T) => void
+	): VoidFunction {
+		const unsubscribe = source.sideEffect(
+			(newState) => apply(select ? select(newState) : newState),
+			true
+		);
+		return this.track(unsubscribe);
+	}
+
+	/**
+	 * keeps the text content in sync with a state.
+	 * @param source - State to bind to.
+	 * @param select - Optional selector over the state's value.
+	 * @returns {() => void} Function to remove the binding.
+	 */
+	bindText<T, V = T>(
+		source: VexdState<T>,
+		select?: (state: T) => V
+	): VoidFunction {
+		return this.bind(source, select, (value) => {
+			this.el.textContent = String(value ?? "");
+		});
+	}
+
+	/**
+	 * keeps the inner HTML in sync with a state, the value is NOT escaped.
+	 * @param source - State to bind to.
+	 * @param select - Optional selector over the state's value.
+	 * @returns {() => void} Function to remove the binding.
+	 */
+	bindHtml<T, V = T>(
+		source: VexdState<T>,
+		select?: (state: T) => V
+	): VoidFunction {
+		return this.bind(source, select, (value) => {
+			this.el.innerHTML = String(value ?? "");
+		});
+	}
+
+	/**
+	 * keeps an attribute in sync with a state, `null`, `undefined` and `false`
+	 * remove the attribute and `true` sets it as a boolean attribute.
+	 * @param attribute - Attribute name.
+	 * @param source - State to bind to.
+	 * @param select - Optional selector over the state's value.
+	 * @returns {() => void} Function to remove the binding.
+	 */
+	bindAttr<T, V = T>(
+		attribute: string,
+		source: VexdState<T>,
+		select?: (state: T) => V
+	): VoidFunction {
+		return this.bind(source, select, (value) => {
+			if (value === null || value === undefined || value === false) {
+				this.el.removeAttribute(attribute);
+			} else {
+				this.el.setAttribute(attribute, value === true ? "" : String(value));
+			}
+		});
+	}
+
+	/**
+	 * toggles a class based on the truthiness of a state.
+	 * @param className - Class name to toggle.
+	 * @param source - State to bind to.
+	 * @param select - Optional selector over the state's value.
+	 * @returns {() => void} Function to remove the binding.
+	 */
+	bindClass<T, V = T>(
+		className: string,
+		source: VexdState<T>,
+		select?: (state: T) => V
+	): VoidFunction {
+		return this.bind(source, select, (value) => {
+			this.el.classList.toggle(className, !!value);
+		});
+	}
+
+	/**
+	 * keeps an inline style property in sync with a state, `null` and
+	 * `undefined` remove the property.
+	 * @param property - CSS property name.
+	 * @param source - State to bind to.
+	 * @param select - Optional selector over the state's value.
+	 * @returns {() => void} Function to remove the binding.
+	 */
+	bindStyle<T, V = T>(
+		property: string,
+		source: VexdState<T>,
+		select?: (state: T) => V
+	): VoidFunction {
+		return this.bind(source, select, (value) => {
+			if (value === null || value === undefined) {
+				this.el.style.removeProperty(property);
+			} else {
+				this.el.style.setProperty(property, String(value));
+			}
+		});
+	}
+
+	/**
+	 * keeps a native property in sync with a state.
+	 * @param propertyName - The property name.
+	 * @param source - State to bind to.
+	 * @param select - Optional selector over the state's value.
+	 * @returns {() => void} Function to remove the binding.
+	 */
+	bindProp<T, V = T>(
+		propertyName: string,
+		source: VexdState<T>,
+		select?: (state: T) => V
+	): VoidFunction {
+		return this.bind(source, select, (value) => {
+			(this.el as any)[propertyName] = value;
+		});
+	}
+
+	/**
+	 * renders a list state into the element and keeps it reconciled by key,
+	 * unchanged items keep their nodes, new items are inserted, removed
+	 * items are removed and reordered items are moved. The element's
+	 * existing children are replaced.
+	 * @param list - State holding the items.
+	 * @param keyFn - Returns a unique key for an item.
+	 * @param renderItem - Creates the element for a new or changed item.
+	 * @returns {() => void} Function to stop reconciling the list.
+	 * @throws Will throw an error if two items share a key.
+	 */
+	renderList<T, K>(
+		list: VexdState<T[]>,
+		keyFn: (item: T, index: number) => K,
+		renderItem: (item: T, index: number) => VexdElement | HTMLElement
+	): VoidFunction {
+		let rendered = new Map<K, KeyedEntry<T>>();
+		const render = (item: T, index: number): HTMLElement => {
+			const node = renderItem(item, index);
+			return node instanceof VexdElement ? node.native() : node;
+		};
+		this.empty();
+		return this.bind<T[], T[]>(list, undefined, (items) => {
+			rendered = reconcileKeyed(this.el, rendered, items, keyFn, render);
+		});
+	}
+
+	/**
+	 * lets the element be moved with the pointer, the position is applied
+	 * as a translate transform and kept between drags.
+	 * @param {VexdDragOptions} [options] - Axis, containment, grid, handle and callbacks.
+	 * @returns {() => void} Function removing the drag behaviour.
+	 */
+	draggable(options?: VexdDragOptions): VoidFunction {
+		return this.track(draggable(this.el, options));
+	}
+
+	/**
+	 * lets the items rendered from a list be reordered by dragging them or
+	 * with the keyboard (space or enter to pick up and drop, arrow keys to
+	 * move, escape to cancel). reorders are applied with `list.move`, so
+	 * the items should be rendered with `renderList`.
+	 * @param {string} itemSelector - CSS selector for the items.
+	 * @param {VexdStateList<T>} list - List the items are rendered from.
+	 * @param {VexdSortableOptions} [options] - Orientation, handle and sort callback.
+	 * @returns {() => void} Function removing the sorting behaviour.
+	 */
+	sortable<T>(
+		itemSelector: string,
+		list: VexdStateList<T>,
+		options?: VexdSortableOptions
+	): VoidFunction {
+		return this.track(sortable(this.el, itemSelector, list, options));
+	}
+
+	/**
+	 * registers a disposer with the element's scope, it runs when the
+	 * element is disposed, removed with `remove()` or `empty()`, or removed
+	 * from the document by any other means and not attached again before
+	 * the current task ends.
+	 * @param {() => void} disposer - Function cleaning up an effect.
+	 * @returns {VexdElement} The current VexdElement instance.
+	 */
+	own(disposer: VoidFunction): VexdElement {
+		const [addEffect] = scopeOf(this.el);
+		addEffect(disposer);
+		return this;
+	}
+
+	/**
+	 * runs and forgets every disposer owned by the element and its
+	 * descendants, including bindings, listeners and observers.
+	 * @returns {VexdElement} The current VexdElement instance.
+	 */
+	dispose(): VexdElement {
+		disposeTree(this.el, true);
+		return this;
+	}
+
+	/**
+	 * removes every binding and owned effect registered on the element,
+	 * unlike `dispose()` descendants are left untouched.
+	 * @returns {VexdElement} The current VexdElement instance.
+	 */
+	unbind(): VexdElement {
+		disposeScope(this.el);
+		return this;
+	}
+
+	/**
+	 * registers a disposer with the element's scope and returns a function
+	 * that runs it and releases it from the scope, listeners and observers
+	 * are reported to the effect tracker when one is installed.
+	 */
+	protected track(
+		disposer: VoidFunction,
+		effect?: Omit<VexdTrackedEffect, "target">
+	): VoidFunction {
+		const untrack =
+			effect && effectTracker ? effectTracker({ ...effect, target: this.el }) : null;
+		let disposed = false;
+		const dispose = () => {
+			if (disposed) return;
+			disposed = true;
+			disposer();
+			untrack?.();
+		};
+		const [addEffect] = scopeOf(this.el);
+		const release = addEffect(dispose);
+		return () => {
+			dispose();
+			release();
+		};
+	}
+
+	/**
+	 * removes the element from the DOM, disposing the effects it and its
+	 * descendants own.
 	 * @overload
 	 * @returns {void}
 	 */
@@ -595,6 +1178,7 @@ export class VexdElement {
 	remove(selector: string): void;
 	remove(selector?: string) {
 		if (!selector) {
+			this.dispose();
 			this.el.remove();
 			return;
 		}
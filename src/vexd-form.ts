@@ -0,0 +1,409 @@
+/**
+ * @file vexd-form.ts
+ * @description Form serialization, population, two-way state binding and validation.
+ */
+
+import { VexdElement } from "./vexd-element";
+import { VexdComputed, VexdState } from "./vexd-state";
+
+type FormField = HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement;
+
+type ValidationResult = string | null | undefined;
+
+/**
+ * returns an error message for an invalid value, or nothing when valid
+ */
+export type VexdValidator = (
+	value: any,
+	values: Record<string, any>
+) => ValidationResult | Promise<ValidationResult>;
+
+export interface VexdFormOptions {
+	/** validators keyed by field name, run in order until one fails */
+	rules?: Record<string, VexdValidator | VexdValidator[]>;
+	/** when fields are validated besides on submit (defaults to "submit") */
+	validateOn?: "submit" | "input" | "change" | "blur";
+}
+
+const IGNORED_TYPES = ["submit", "button", "reset", "image"];
+
+const isEmpty = (value: any) =>
+	value === null ||
+	value === undefined ||
+	value === "" ||
+	value === false ||
+	(Array.isArray(value) && value.length === 0);
+
+/**
+ * common validators, each accepts an optional custom message
+ */
+export const validators = {
+	required:
+		(message = "This field is required"): VexdValidator =>
+		(value) =>
+			isEmpty(value) ? message : null,
+	minLength:
+		(length: number, message = `Must be at least ${length} characters`): VexdValidator =>
+		(value) =>
+			!isEmpty(value) && String(value).length < length ? message : null,
+	maxLength:
+		(length: number, message = `Must be at most ${length} characters`): VexdValidator =>
+		(value) =>
+			!isEmpty(value) && String(value).length > length ? message : null,
+	pattern:
+		(regex: RegExp, message = "Invalid format"): VexdValidator =>
+		(value) =>
+			!isEmpty(value) && !regex.test(String(value)) ? message : null,
+	min:
+		(min: number, message = `Must be at least ${min}`): VexdValidator =>
+		(value) =>
+			!isEmpty(value) && Number(value) < min ? message : null,
+	max:
+		(max: number, message = `Must be at most ${max}`): VexdValidator =>
+		(value) =>
+			!isEmpty(value) && Number(value) > max ? message : null,
+	email: (message = "Invalid email address"): VexdValidator =>
+		validators.pattern(/^[^\s@]+@[^\s@]+\.[^\s@]+$/, message),
+};
+
+/**
+ * splits a field name such as `a[b][]` into its path, `[]` becomes ""
+ */
+function parseName(name: string): string[] {
+	const bracket = name.indexOf("[");
+	if (bracket <= 0) return [name];
+	const path = [name.slice(0, bracket)];
+	const rest = name.slice(bracket);
+	const pattern = /\[([^\]]*)\]/g;
+	let match: RegExpExecArray | null;
+	while ((match = pattern.exec(rest))) path.push(match[1]);
+	return path;
+}
+
+function setPath(target: Record<string, any>, path: string[], value: any): void {
+	let cursor: any = target;
+	path.forEach((segment, index) => {
+		const isLast = index === path.length - 1;
+		const key = segment === "" && Array.isArray(cursor) ? cursor.length : segment;
+		if (isLast) {
+			cursor[key] = value;
+			return;
+		}
+		if (cursor[key] === undefined || cursor[key] === null) {
+			const next = path[index + 1];
+			cursor[key] = next === "" || /^\d+$/.test(next) ? [] : {};
+		}
+		cursor = cursor[key];
+	});
+}
+
+function getPath(source: any, path: string[]): any {
+	return path.reduce(
+		(cursor, segment) => (cursor === null || cursor === undefined ? undefined : cursor[segment]),
+		source
+	);
+}
+
+/**
+ * the path a field's value is stored at, a trailing `[]` is dropped since
+ * those fields are read as arrays
+ */
+function valuePath(name: string): string[] {
+	const path = parseName(name);
+	return path.length > 1 && path[path.length - 1] === "" ? path.slice(0, -1) : path;
+}
+
+export class VexdForm extends VexdElement {
+	/** error messages keyed by field name, only invalid fields are present */
+	readonly errors = new VexdState<Record<string, string>>({});
+	/** the error thrown by the last submission's validators or handler */
+	readonly submitError = new VexdState<unknown>(null);
+	/** true while any asynchronous validator is pending */
+	readonly validating = new VexdState<boolean>(false);
+	/** true when no field has an error */
+	readonly valid = new VexdComputed<boolean>(
+		() => Object.keys(this.errors.state).length === 0
+	);
+
+	private rules: Record<string, VexdValidator[]> = {};
+	private fieldErrors = new Map<string, VexdComputed<string | null>>();
+	private pendingValidations = 0;
+	private validationTokens = new Map<string, number>();
+
+	/**
+	 * wraps a form element.
+	 * @param {HTMLFormElement | string} form - A form element or a CSS selector string.
+	 * @param {VexdFormOptions} [options] - Validation options.
+	 * @throws Will throw an error if the element is not a form.
+	 */
+	constructor(form: HTMLFormElement | string, options: VexdFormOptions = {}) {
+		super(form);
+		if (!(this.native() instanceof HTMLFormElement)) {
+			throw new Error("vexd-js: VexdForm requires a <form> element");
+		}
+		Object.keys(options.rules ?? {}).forEach((name) => {
+			const rules = options.rules![name];
+			this.rules[name] = Array.isArray(rules) ? rules : [rules];
+		});
+
+		const validateOn = options.validateOn ?? "submit";
+		if (validateOn !== "submit") {
+			const eventName = validateOn === "blur" ? "focusout" : validateOn;
+			this.event(eventName, (e) => {
+				const name = (e.target as FormField).name;
+				if (name && this.rules[name]) this.validateField(name);
+			});
+		}
+	}
+
+	/**
+	 * returns the underlying form element.
+	 * @returns {HTMLFormElement}
+	 */
+	form(): HTMLFormElement {
+		return this.native() as HTMLFormElement;
+	}
+
+	/**
+	 * reads every enabled, named field into an object. checkbox groups and
+	 * multi-selects become arrays, single checkboxes booleans, number inputs
+	 * numbers, file inputs Files and `a[b]` names nested objects.
+	 * @returns {T} The form's values.
+	 */
+	serialize<T = Record<string, any>>(): T {
+		const result: Record<string, any> = {};
+		this.fieldNames().forEach((name) => {
+			setPath(result, valuePath(name), this.readField(name));
+		});
+		return result as T;
+	}
+
+	/**
+	 * writes values into the matching fields, fields missing from the object
+	 * are left untouched and file inputs are never written.
+	 * @param {Record<string, any>} values - Values to write.
+	 * @returns {VexdForm} The current instance.
+	 */
+	populate(values: Record<string, any>): VexdForm {
+		this.fieldNames().forEach((name) => {
+			const value = getPath(values, valuePath(name));
+			if (value !== undefined) this.writeField(name, value);
+		});
+		return this;
+	}
+
+	/**
+	 * keeps the form and a state in sync in both directions, the state is
+	 * written to the form immediately and fields the state has no value for
+	 * are copied into it.
+	 * @param {VexdState<T>} source - State holding the form's values.
+	 * @returns {() => void} Function to remove the binding.
+	 */
+	bindState<T extends Record<string, any>>(source: VexdState<T>): VoidFunction {
+		let writing = false;
+		const unsubscribe = source.sideEffect((values) => {
+			if (!writing) this.populate(values);
+		}, true);
+		const write = (merge: (previous: T) => T) => {
+			writing = true;
+			try {
+				source.setState(merge);
+			} finally {
+				writing = false;
+			}
+		};
+		const update = () => write((previous) => ({ ...previous, ...this.serialize<T>() }));
+		write((previous) => ({ ...this.serialize<T>(), ...previous }));
+		const offInput = this.event("input", update);
+		const offChange = this.event("change", update);
+
+		return this.track(() => {
+			unsubscribe();
+			offInput();
+			offChange();
+		});
+	}
+
+	/**
+	 * the error message of a single field as a state.
+	 * @param {string} name - Field name.
+	 * @returns {VexdComputed<string | null>}
+	 */
+	error(name: string): VexdComputed<string | null> {
+		let fieldError = this.fieldErrors.get(name);
+		if (!fieldError) {
+			fieldError = new VexdComputed<string | null>(
+				() => this.errors.state[name] ?? null
+			);
+			this.fieldErrors.set(name, fieldError);
+		}
+		return fieldError;
+	}
+
+	/**
+	 * runs the rules of a single field, updating its error and aria-invalid.
+	 * @param {string} name - Field name.
+	 * @returns {Promise<boolean>} Resolves with true if the field is valid.
+	 */
+	async validateField(name: string): Promise<boolean> {
+		const rules = this.rules[name] ?? [];
+		const token = (this.validationTokens.get(name) ?? 0) + 1;
+		this.validationTokens.set(name, token);
+
+		const values = this.serialize();
+		const value = this.readField(name);
+		let message: ValidationResult = null;
+
+		this.validating.setState(++this.pendingValidations > 0);
+		try {
+			for (const rule of rules) {
+				message = await rule(value, values);
+				if (message) break;
+			}
+		} finally {
+			this.validating.setState(--this.pendingValidations > 0);
+		}
+
+		if (this.validationTokens.get(name) === token) {
+			this.setError(name, message || null);
+		}
+		return !message;
+	}
+
+	/**
+	 * runs the rules of every field.
+	 * @returns {Promise<boolean>} Resolves with true if the form is valid.
+	 */
+	async validate(): Promise<boolean> {
+		const results = await Promise.all(
+			Object.keys(this.rules).map((name) => this.validateField(name))
+		);
+		return results.every(Boolean);
+	}
+
+	/**
+	 * handles submission, the default action is prevented and the handler
+	 * only runs when the form is valid. an error thrown by a validator or
+	 * the handler, or a rejection of the promise it returns, is stored in
+	 * `submitError`.
+	 * @param {(values: T, e: Event) => unknown} handler - Called with the serialized values.
+	 * @returns {() => void} Function to remove the listener.
+	 */
+	onSubmit<T = Record<string, any>>(
+		handler: (values: T, e: Event) => void | Promise<unknown>
+	): VoidFunction {
+		return this.event("submit", async (e) => {
+			e.preventDefault();
+			this.submitError.setState(null);
+			try {
+				if (await this.validate()) await handler(this.serialize<T>(), e);
+			} catch (error) {
+				this.submitError.setState(error);
+			}
+		});
+	}
+
+	/**
+	 * clears every error and aria-invalid attribute.
+	 * @returns {VexdForm} The current instance.
+	 */
+	clearErrors(): VexdForm {
+		Object.keys(this.errors.peek()).forEach((name) => this.setError(name, null));
+		return this;
+	}
+
+	private setError(name: string, message: string | null): void {
+		this.errors.setState((previous) => {
+			if ((previous[name] ?? null) === message) return previous;
+			const next = { ...previous };
+			if (message) next[name] = message;
+			else delete next[name];
+			return next;
+		});
+		this.fields(name).forEach((field) => {
+			if (message) field.setAttribute("aria-invalid", "true");
+			else field.removeAttribute("aria-invalid");
+		});
+	}
+
+	private fields(name?: string): FormField[] {
+		return (Array.from(this.form().elements) as FormField[]).filter(
+			(field) =>
+				field.name &&
+				!field.disabled &&
+				!IGNORED_TYPES.includes(field.type) &&
+				(name === undefined || field.name === name)
+		);
+	}
+
+	private fieldNames(): string[] {
+		const names: string[] = [];
+		this.fields().forEach((field) => {
+			if (!names.includes(field.name)) names.push(field.name);
+		});
+		return names;
+	}
+
+	private readField(name: string): any {
+		const fields = this.fields(name);
+		const [first] = fields;
+		if (!first) return undefined;
+		const isList = fields.length > 1 || name.endsWith("[]");
+
+		if (first instanceof HTMLSelectElement && first.multiple) {
+			return Array.from(first.selectedOptions).map((option) => option.value);
+		}
+		if (first instanceof HTMLInputElement) {
+			const inputs = fields as HTMLInputElement[];
+			switch (first.type) {
+				case "radio":
+					return inputs.find((input) => input.checked)?.value ?? null;
+				case "checkbox":
+					return isList
+						? inputs.filter((input) => input.checked).map((input) => input.value)
+						: first.checked;
+				case "file": {
+					const files = Array.from(first.files ?? []);
+					return first.multiple ? files : files[0] ?? null;
+				}
+				case "number":
+				case "range": {
+					const numbers = inputs.map((input) =>
+						input.value === "" ? null : Number(input.value)
+					);
+					return isList ? numbers : numbers[0];
+				}
+			}
+		}
+		return isList ? fields.map((field) => field.value) : first.value;
+	}
+
+	private writeField(name: string, value: any): void {
+		const fields = this.fields(name);
+		const values: string[] = Array.isArray(value) ? value.map(String) : [];
+
+		fields.forEach((field, index) => {
+			if (field instanceof HTMLSelectElement && field.multiple) {
+				Array.from(field.options).forEach((option) => {
+					option.selected = values.includes(option.value);
+				});
+				return;
+			}
+			if (field instanceof HTMLInputElement) {
+				if (field.type === "file") return;
+				if (field.type === "radio") {
+					field.checked = field.value === String(value);
+					return;
+				}
+				if (field.type === "checkbox") {
+					field.checked = Array.isArray(value)
+						? values.includes(field.value)
+						: !!value;
+					return;
+				}
+			}
+			const fieldValue = Array.isArray(value) ? value[index] : value;
+			field.value = fieldValue === null || fieldValue === undefined ? "" : String(fieldValue);
+		});
+	}
+}
@@ -0,0 +1,120 @@
+/**
+ * @file vexd-history.ts
+ * @description Undo and redo history for a VexdState.
+ */
+
+import { batch, VexdState } from "./vexd-state";
+
+export interface VexdHistoryOptions {
+	/** maximum number of undo entries kept (defaults to 100) */
+	limit?: number;
+}
+
+/**
+ * records the previous values of a state so changes can be undone and
+ * redone, setting the state outside of undo/redo clears the redo stack
+ */
+export class VexdHistory<T> {
+	readonly canUndo = new VexdState<boolean>(false);
+	readonly canRedo = new VexdState<boolean>(false);
+
+	private past: T[] = [];
+	private future: T[] = [];
+	private limit: number;
+	private applying: boolean = false;
+	private groupDepth: number = 0;
+	private groupRecorded: boolean = false;
+	private stopRecording: VoidFunction;
+	private stopSyncing: VoidFunction;
+
+	constructor(
+		private readonly source: VexdState<T>,
+		options: VexdHistoryOptions = {}
+	) {
+		this.limit = options.limit ?? 100;
+		this.stopRecording = source.beforeChange((_, previous) =>
+			this.record(previous)
+		);
+		// changes are recorded before the source commits them, the flags
+		// follow once subscribers can read the new value
+		this.stopSyncing = source.sideEffect(() => this.updateFlags());
+	}
+
+	/**
+	 * Restore the value before the last change
+	 */
+	undo(): void {
+		if (this.past.length === 0) return;
+		this.future.push(this.source.peek());
+		this.apply(this.past.pop() as T);
+	}
+
+	/**
+	 * Reapply the last undone change
+	 */
+	redo(): void {
+		if (this.future.length === 0) return;
+		this.past.push(this.source.peek());
+		this.apply(this.future.pop() as T);
+	}
+
+	/**
+	 * Run several updates as a single history entry, subscribers are
+	 * notified once when the group ends
+	 * @param fn Function performing the updates
+	 */
+	group(fn: () => void): void {
+		if (this.groupDepth === 0) this.groupRecorded = false;
+		this.groupDepth++;
+		try {
+			batch(fn);
+		} finally {
+			this.groupDepth--;
+		}
+	}
+
+	/**
+	 * Forget every undo and redo entry
+	 */
+	clear(): void {
+		this.past = [];
+		this.future = [];
+		this.updateFlags();
+	}
+
+	/**
+	 * Stop recording changes
+	 */
+	dispose(): void {
+		this.stopRecording();
+		this.stopSyncing();
+	}
+
+	private record(previous: T): void {
+		if (this.applying) return;
+		if (this.groupDepth > 0) {
+			if (this.groupRecorded) return;
+			this.groupRecorded = true;
+		}
+		this.past.push(previous);
+		if (this.past.length > this.limit) this.past.shift();
+		this.future = [];
+	}
+
+	private apply(value: T): void {
+		this.applying = true;
+		try {
+			this.source.setState(() => value);
+		} finally {
+			this.applying = false;
+		}
+		this.updateFlags();
+	}
+
+	private updateFlags(): void {
+		batch(() => {
+			this.canUndo.setState(this.past.length > 0);
+			this.canRedo.setState(this.future.length > 0);
+		});
+	}
+}
@@ -1,65 +1,362 @@
-import { VexdState, VexdStateList } from "./vexd-state";
+import {
+	applyListChanges,
+	batch,
+	BatchMode,
+	flushBatch,
+	setBatchMode,
+	VexdComputed,
+	VexdListChange,
+	VexdState,
+	VexdStateList,
+} from "./vexd-state";
+import { VexdHistory, VexdHistoryOptions } from "./vexd-history";
+import {
+	Path,
+	PathValue,
+	VexdFocusedState,
+	VexdObjectState,
+} from "./vexd-object-state";
+import {
+	VexdPersistedState,
+	VexdPersistOptions,
+	VexdStorageAdapter,
+} from "./vexd-persisted-state";
+
+interface VexdRequestOptions<T>
+	extends Omit<RequestInit, "signal" | "cache"> {
+	/** fetch implementation, defaults to the global fetch */
+	fetch?: (input: string, init?: RequestInit) => Promise<Response>;
+	/** reads the response body, defaults to response.json() */
+	parse?: (response: Response) => Promise<T>;
+	/** number of times a failed request is retried (defaults to 0) */
+	retries?: number;
+	/** delay before a retry, defaults to 300ms doubled on each attempt */
+	retryDelay?: number | ((attempt: number) => number);
+	/** milliseconds before an attempt is aborted */
+	timeout?: number;
+	/** share identical in-flight requests (defaults to true for GET and HEAD) */
+	dedupe?: boolean;
+	/** cache responses and serve them while revalidating */
+	cache?: boolean;
+	/** milliseconds a cached response is served without revalidating (defaults to 0) */
+	staleTime?: number;
+	/** send the request as soon as it is created */
+	immediate?: boolean;
+}
+
+interface VexdRequest<T> {
+	loading: VexdState<boolean>;
+	error: VexdState<Error | null>;
+	data: VexdState<T | null>;
+	run: () => Promise<T | null>;
+	abort: () => void;
+}
+
+/**
+ * Error thrown for failed or timed out requests, status is 0 for timeouts
+ */
+class VexdRequestError extends Error {
+	constructor(
+		message: string,
+		public readonly status: number,
+		public readonly response?: Response
+	) {
+		super(message);
+		this.name = "VexdRequestError";
+	}
+}
 
 interface VexTimedHook {
+	/** starts (or restarts) with the full delay */
 	start: () => void;
+	/** stops and forgets the remaining time */
 	stop: () => void;
+	/** stops, zeroes the tick counter and starts again */
 	reset: () => void;
+	/** stops while keeping the remaining time */
+	pause: () => void;
+	/** continues a paused hook with the time that was remaining */
+	resume: () => void;
+	/** changes the delay, time already elapsed in the current cycle counts towards it */
+	setDelay: (ms: number) => void;
+	/** milliseconds until the next tick */
+	remaining: () => number;
+	/** true while scheduled, false when stopped, paused or finished */
+	readonly isRunning: VexdState<boolean>;
+	/** how many times the function has run */
+	readonly ticks: VexdState<number>;
 }
 
 /**
- * Creates a managed interval that can be started, stopped, and reset
- * @param timerFn Function to execute on each interval
- * @param ms Millisecond interval (defaults to 1000ms)
- * @returns Controlled interval hook
+ * schedules ticks with chained timeouts so a cycle can be paused and
+ * resumed part way through
  */
-function createInterval(timerFn: () => void, ms: number = 1000): VexTimedHook {
-	let intervalId: number | null = null;
+function createTimedHook(
+	timerFn: () => void,
+	ms: number,
+	repeat: boolean
+): VexTimedHook {
+	const isRunning = new VexdState<boolean>(false);
+	const ticks = new VexdState<number>(0);
+	let delay = ms;
+	let timeoutId: number | null = null;
+	let cycleStart = 0;
+	let pausedRemaining: number | null = null;
 
-	const start = () => {
-		if (intervalId) stop();
-		intervalId = setInterval(timerFn, ms);
+	const elapsed = () => {
+		if (timeoutId !== null) return Date.now() - cycleStart;
+		if (pausedRemaining !== null) return delay - pausedRemaining;
+		return 0;
 	};
 
+	const clear = () => {
+		if (timeoutId === null) return;
+		clearTimeout(timeoutId);
+		timeoutId = null;
+	};
+
+	const schedule = (wait: number) => {
+		clear();
+		pausedRemaining = null;
+		cycleStart = Date.now() - (delay - wait);
+		timeoutId = setTimeout(tick, wait);
+		isRunning.setState(true);
+	};
+
+	const tick = () => {
+		timeoutId = null;
+		ticks.setState((count) => count + 1);
+		if (repeat) schedule(delay);
+		else isRunning.setState(false);
+		timerFn();
+	};
+
+	const start = () => schedule(delay);
+
 	const stop = () => {
-		if (!intervalId) return;
-		clearInterval(intervalId);
-		intervalId = null;
+		clear();
+		pausedRemaining = null;
+		isRunning.setState(false);
 	};
 
 	const reset = () => {
 		stop();
+		ticks.setState(0);
 		start();
 	};
 
-	return { start, stop, reset };
+	const pause = () => {
+		if (timeoutId === null) return;
+		const remainingTime = Math.max(0, delay - elapsed());
+		clear();
+		pausedRemaining = remainingTime;
+		isRunning.setState(false);
+	};
+
+	const resume = () => {
+		if (pausedRemaining !== null) schedule(pausedRemaining);
+	};
+
+	const setDelay = (nextMs: number) => {
+		const spent = elapsed();
+		delay = nextMs;
+		const wait = Math.max(0, delay - spent);
+		if (timeoutId !== null) schedule(wait);
+		else if (pausedRemaining !== null) pausedRemaining = wait;
+	};
+
+	const remaining = () => Math.max(0, delay - elapsed());
+
+	return { start, stop, reset, pause, resume, setDelay, remaining, isRunning, ticks };
 }
 
 /**
- * Creates a managed timeout that can be started, stopped, and reset
+ * Creates a managed interval that can be started, stopped, paused and reset
+ * @param timerFn Function to execute on each interval
+ * @param ms Millisecond interval (defaults to 1000ms)
+ * @returns Controlled interval hook
+ */
+function createInterval(timerFn: () => void, ms: number = 1000): VexTimedHook {
+	return createTimedHook(timerFn, ms, true);
+}
+
+/**
+ * Creates a managed timeout that can be started, stopped, paused and reset
  * @param timerFn Function to execute after the timeout
  * @param ms Millisecond delay (defaults to 1000ms)
  * @returns Controlled timeout hook
  */
 function createTimer(timerFn: () => void, ms: number = 1000): VexTimedHook {
-	let timeoutId: number | null = null;
+	return createTimedHook(timerFn, ms, false);
+}
+
+interface VexdFrameLoop {
+	start: () => void;
+	stop: () => void;
+	readonly isRunning: VexdState<boolean>;
+}
+
+/**
+ * Creates a loop running once per animation frame
+ * @param frameFn Called with the milliseconds since the previous frame (0 on
+ * the first) and since the loop started, returning false stops the loop
+ * @returns Controlled frame loop
+ */
+function createFrameLoop(
+	frameFn: (delta: number, elapsed: number) => void | boolean
+): VexdFrameLoop {
+	const isRunning = new VexdState<boolean>(false);
+	let frameId: number | null = null;
+	let startTime: number | null = null;
+	let previousTime: number | null = null;
+
+	const frame = (time: number) => {
+		if (startTime === null) startTime = time;
+		const delta = previousTime === null ? 0 : time - previousTime;
+		previousTime = time;
+		frameId = requestAnimationFrame(frame);
+		if (frameFn(delta, time - startTime) === false) stop();
+	};
 
 	const start = () => {
-		if (timeoutId) stop();
-		timeoutId = setTimeout(timerFn, ms);
+		if (frameId !== null) return;
+		startTime = null;
+		previousTime = null;
+		frameId = requestAnimationFrame(frame);
+		isRunning.setState(true);
 	};
 
 	const stop = () => {
-		if (!timeoutId) return;
-		clearTimeout(timeoutId);
+		if (frameId === null) return;
+		cancelAnimationFrame(frameId);
+		frameId = null;
+		isRunning.setState(false);
+	};
+
+	return { start, stop, isRunning };
+}
+
+interface VexdRateLimitOptions {
+	/** run on the first call of a burst */
+	leading?: boolean;
+	/** run with the latest arguments once the burst is over */
+	trailing?: boolean;
+}
+
+interface VexdRateLimited<A extends any[]> {
+	(...args: A): void;
+	/** drops the pending call */
+	cancel: () => void;
+	/** runs the pending call now */
+	flush: () => void;
+	/** true when a trailing call is waiting */
+	pending: () => boolean;
+}
+
+/**
+ * Creates a debounced function that only runs once calls have stopped
+ * for the given time
+ * @param fn Function to debounce
+ * @param ms Quiet period in milliseconds
+ * @param options Leading (defaults to false) and trailing (defaults to true) calls
+ * @returns The debounced function
+ * @throws Will throw an error if both leading and trailing calls are disabled
+ */
+function createDebounce<A extends any[]>(
+	fn: (...args: A) => void,
+	ms: number,
+	options: VexdRateLimitOptions = {}
+): VexdRateLimited<A> {
+	const { leading = false, trailing = true } = options;
+	if (!leading && !trailing) {
+		throw new Error("vexd-js: a debounced function needs leading or trailing calls");
+	}
+	let timeoutId: number | null = null;
+	let pendingArgs: A | null = null;
+
+	const expire = () => {
 		timeoutId = null;
+		const args = pendingArgs;
+		pendingArgs = null;
+		if (args && trailing) fn(...args);
 	};
 
-	const reset = () => {
-		stop();
-		start();
+	const debounced = (...args: A) => {
+		const isBurstStart = timeoutId === null;
+		if (timeoutId !== null) clearTimeout(timeoutId);
+		timeoutId = setTimeout(expire, ms);
+		if (isBurstStart && leading) fn(...args);
+		else pendingArgs = args;
 	};
 
-	return { start, stop, reset };
+	return Object.assign(debounced, {
+		cancel: () => {
+			if (timeoutId !== null) clearTimeout(timeoutId);
+			timeoutId = null;
+			pendingArgs = null;
+		},
+		flush: () => {
+			if (timeoutId !== null) clearTimeout(timeoutId);
+			expire();
+		},
+		pending: () => pendingArgs !== null && trailing,
+	});
+}
+
+/**
+ * Creates a throttled function that runs at most once per period
+ * @param fn Function to throttle
+ * @param ms Period in milliseconds
+ * @param options Leading and trailing calls (both default to true)
+ * @returns The throttled function
+ * @throws Will throw an error if both leading and trailing calls are disabled
+ */
+function createThrottle<A extends any[]>(
+	fn: (...args: A) => void,
+	ms: number,
+	options: VexdRateLimitOptions = {}
+): VexdRateLimited<A> {
+	const { leading = true, trailing = true } = options;
+	if (!leading && !trailing) {
+		throw new Error("vexd-js: a throttled function needs leading or trailing calls");
+	}
+	let timeoutId: number | null = null;
+	let pendingArgs: A | null = null;
+
+	const expire = () => {
+		timeoutId = null;
+		const args = pendingArgs;
+		pendingArgs = null;
+		if (args && trailing) {
+			fn(...args);
+			timeoutId = setTimeout(expire, ms);
+		}
+	};
+
+	const throttled = (...args: A) => {
+		if (timeoutId !== null) {
+			pendingArgs = args;
+			return;
+		}
+		timeoutId = setTimeout(expire, ms);
+		if (leading) fn(...args);
+		else pendingArgs = args;
+	};
+
+	return Object.assign(throttled, {
+		cancel: () => {
+			if (timeoutId !== null) clearTimeout(timeoutId);
+			timeoutId = null;
+			pendingArgs = null;
+		},
+		flush: () => {
+			if (pendingArgs === null || !trailing) return;
+			if (timeoutId !== null) clearTimeout(timeoutId);
+			// runs the pending call and starts a new period
+			expire();
+		},
+		pending: () => pendingArgs !== null && trailing,
+	});
 }
 
 type EffectStore = readonly [
@@ -83,7 +380,7 @@ function effectStore(): EffectStore {
 	};
 
 	const dispose = () => {
-		effects.forEach((disposeFn) => {
+		effects.splice(0).forEach((disposeFn) => {
 			if (disposeFn) disposeFn();
 		});
 	};
@@ -109,20 +406,315 @@ function stateList<T>(initialValue: T[] = []): VexdStateList<T> {
 	return new VexdStateList<T>(initialValue);
 }
 
+/**
+ * create a reactive state container for an object whose nested values can
+ * be focused with `at("a.b.c")`
+ * @param initialValue Initial object value
+ * @returns A VexdObjectState instance
+ */
+function objectState<T extends object>(initialValue: T): VexdObjectState<T> {
+	return new VexdObjectState<T>(initialValue);
+}
+
+/**
+ * create a reactive state container that is saved to storage and kept in
+ * sync across tabs
+ * @param key Storage key
+ * @param initialValue Value used when nothing valid is stored
+ * @param options Storage, serialization and versioning options
+ * @returns A VexdPersistedState instance
+ */
+function persistedState<T>(
+	key: string,
+	initialValue: T,
+	options?: VexdPersistOptions<T>
+): VexdPersistedState<T> {
+	return new VexdPersistedState<T>(key, initialValue, options);
+}
+
+/**
+ * record the history of a state so its changes can be undone and redone
+ * @param source State to record
+ * @param options History options
+ * @returns A VexdHistory instance
+ */
+function withHistory<T>(
+	source: VexdState<T>,
+	options?: VexdHistoryOptions
+): VexdHistory<T> {
+	return new VexdHistory<T>(source, options);
+}
+
+/**
+ * create a read-only state derived from other states, any state read
+ * inside the getter becomes a dependency
+ * @param getter Function computing the derived value
+ * @returns A VexdComputed instance
+ */
+function computed<T>(getter: () => T): VexdComputed<T> {
+	return new VexdComputed<T>(getter);
+}
+
+interface SharedRequest {
+	promise: Promise<unknown>;
+	/** aborts the fetch, used once every waiting caller has aborted */
+	controller: AbortController;
+	/** callers still waiting for the response */
+	waiting: number;
+}
+
+const inflightRequests = new Map<string, SharedRequest>();
+const responseCache = new Map<string, { data: unknown; time: number }>();
+
+/**
+ * Remove cached responses
+ * @param key Optional request key ("METHOD url"), clears everything when omitted
+ */
+function clearRequestCache(key?: string): void {
+	if (key === undefined) responseCache.clear();
+	else responseCache.delete(key);
+}
+
+function isRetryable(error: unknown): boolean {
+	return !(
+		error instanceof VexdRequestError &&
+		error.status >= 400 &&
+		error.status < 500
+	);
+}
+
+function wait(ms: number): Promise<void> {
+	return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function whenAborted(signal: AbortSignal): Promise<void> {
+	return new Promise((resolve) =>
+		signal.addEventListener("abort", () => resolve(), { once: true })
+	);
+}
+
 /**
  * create a managed AJAX request
  * @param url The endpoint URL
  * @param options Request configuration options
  * @returns A controllable request object with state management
  */
+function createRequest<T = unknown>(
+	url: string,
+	options: VexdRequestOptions<T> = {}
+): VexdRequest<T> {
+	const {
+		fetch: fetchImpl = (input: string, init?: RequestInit) => fetch(input, init),
+		parse = (response: Response) => response.json() as Promise<T>,
+		retries = 0,
+		retryDelay = (attempt: number) => 300 * 2 ** attempt,
+		timeout,
+		dedupe,
+		cache = false,
+		staleTime = 0,
+		immediate = false,
+		...init
+	} = options;
+
+	const loading = new VexdState<boolean>(false);
+	const error = new VexdState<Error | null>(null);
+	const data = new VexdState<T | null>(null);
+
+	const method = (init.method ?? "GET").toUpperCase();
+	const body = typeof init.body === "string" ? ` ${init.body}` : "";
+	const key = `${method} ${url}${body}`;
+	const shouldDedupe = dedupe ?? (method === "GET" || method === "HEAD");
+	let controller: AbortController | null = null;
+
+	const fetchOnce = (signal: AbortSignal): Promise<T> => {
+		const attempt = new AbortController();
+		const onAbort = () => attempt.abort();
+		signal.addEventListener("abort", onAbort);
+		let timedOut = false;
+		const timeoutId = timeout
+			? setTimeout(() => {
+					timedOut = true;
+					attempt.abort();
+			  }, timeout)
+			: null;
+		const cleanup = () => {
+			if (timeoutId) clearTimeout(timeoutId);
+			signal.removeEventListener("abort", onAbort);
+		};
+
+		return fetchImpl(url, { ...init, signal: attempt.signal })
+			.then((response) => {
+				if (!response.ok) {
+					throw new VexdRequestError(
+						`vexd-js: request failed with status ${response.status}`,
+						response.status,
+						response
+					);
+				}
+				return parse(response);
+			})
+			.then(
+				(result) => {
+					cleanup();
+					return result;
+				},
+				(reason) => {
+					cleanup();
+					if (timedOut) {
+						throw new VexdRequestError(
+							`vexd-js: request timed out after ${timeout}ms`,
+							0
+						);
+					}
+					throw reason;
+				}
+			);
+	};
+
+	const fetchWithRetry = async (signal: AbortSignal): Promise<T> => {
+		for (let attempt = 0; ; attempt++) {
+			try {
+				return await fetchOnce(signal);
+			} catch (reason) {
+				if (signal.aborted || attempt >= retries || !isRetryable(reason)) {
+					throw reason;
+				}
+				await wait(
+					typeof retryDelay === "function" ? retryDelay(attempt) : retryDelay
+				);
+				if (signal.aborted) throw reason;
+			}
+		}
+	};
+
+	/**
+	 * joins the in-flight request for the key or starts one, a caller that
+	 * aborts stops sharing it and the fetch itself is only aborted once
+	 * every caller waiting for it has aborted
+	 */
+	const share = (signal: AbortSignal): Promise<unknown> => {
+		let shared = inflightRequests.get(key);
+		if (!shared) {
+			const sharedController = new AbortController();
+			const entry: SharedRequest = {
+				promise: fetchWithRetry(sharedController.signal),
+				controller: sharedController,
+				waiting: 0,
+			};
+			const release = () => {
+				if (inflightRequests.get(key) === entry) inflightRequests.delete(key);
+			};
+			entry.promise.then(release, release);
+			inflightRequests.set(key, entry);
+			shared = entry;
+		}
+		const joined = shared;
+		joined.waiting++;
+		signal.addEventListener(
+			"abort",
+			() => {
+				joined.waiting--;
+				if (joined.waiting > 0) return;
+				if (inflightRequests.get(key) === joined) inflightRequests.delete(key);
+				joined.controller.abort();
+			},
+			{ once: true }
+		);
+		return joined.promise;
+	};
+
+	const run = async (): Promise<T | null> => {
+		controller?.abort();
+		const current = new AbortController();
+		controller = current;
+
+		const cached = cache ? responseCache.get(key) : undefined;
+		if (cached) {
+			data.setState(cached.data as T);
+			if (Date.now() - cached.time < staleTime) return cached.data as T;
+		}
+
+		batch(() => {
+			loading.setState(true);
+			error.setState(null);
+		});
+
+		try {
+			const pending = shouldDedupe
+				? share(current.signal)
+				: fetchWithRetry(current.signal);
+			// an aborted caller stops waiting even if others keep the fetch going
+			const result = (await Promise.race([pending, whenAborted(current.signal)])) as T;
+			if (current.signal.aborted) return null;
+
+			if (cache) responseCache.set(key, { data: result, time: Date.now() });
+			batch(() => {
+				data.setState(result);
+				loading.setState(false);
+			});
+			return result;
+		} catch (reason) {
+			if (current.signal.aborted) return null;
+			batch(() => {
+				error.setState(reason instanceof Error ? reason : new Error(String(reason)));
+				loading.setState(false);
+			});
+			return null;
+		} finally {
+			if (controller === current) controller = null;
+		}
+	};
+
+	const abort = () => {
+		if (!controller) return;
+		controller.abort();
+		controller = null;
+		loading.setState(false);
+	};
+
+	if (immediate) run();
+
+	return { loading, error, data, run, abort };
+}
 
 export {
+	applyListChanges,
+	batch,
+	BatchMode,
+	clearRequestCache,
+	computed,
+	createDebounce,
+	createFrameLoop,
 	createInterval,
+	createRequest,
+	createThrottle,
 	createTimer,
 	effectStore,
+	flushBatch,
+	objectState,
+	Path,
+	PathValue,
+	persistedState,
+	setBatchMode,
 	state,
 	stateList,
+	withHistory,
+	VexdComputed,
+	VexdFocusedState,
+	VexdFrameLoop,
+	VexdHistory,
+	VexdHistoryOptions,
+	VexdListChange,
+	VexdObjectState,
+	VexdPersistedState,
+	VexdPersistOptions,
+	VexdRateLimited,
+	VexdRateLimitOptions,
+	VexdRequest,
+	VexdRequestError,
+	VexdRequestOptions,
 	VexdState,
 	VexdStateList,
+	VexdStorageAdapter,
 	VexTimedHook,
 };
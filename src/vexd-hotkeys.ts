@@ -0,0 +1,265 @@
+/**
+ * @file vexd-hotkeys.ts
+ * @description Keyboard shortcuts with platform aware modifiers, sequences and scopes.
+ */
+
+import { VexdElement } from "./vexd-element";
+
+export interface VexdHotkeyOptions {
+	/**
+	 * only handle the shortcut while focus is inside the element, or while
+	 * the named scope is active
+	 */
+	scope?: VexdElement | HTMLElement | string;
+	/** prevent the browser's default action for the final key (defaults to true) */
+	preventDefault?: boolean;
+	/** also handle the shortcut while typing in inputs, textareas and editable content (defaults to false) */
+	inputs?: boolean;
+	/** milliseconds allowed between the keys of a sequence (defaults to 1000) */
+	sequenceTimeout?: number;
+}
+
+interface KeyCombo {
+	key: string;
+	ctrl: boolean;
+	alt: boolean;
+	shift: boolean;
+	meta: boolean;
+}
+
+interface HotkeyBinding {
+	sequences: KeyCombo[][];
+	handler: (e: KeyboardEvent) => void;
+	options: VexdHotkeyOptions;
+	/** how many keys of each sequence have been pressed */
+	progress: number[];
+	lastKeyTime: number;
+}
+
+const KEY_ALIASES: Record<string, string> = {
+	esc: "escape",
+	return: "enter",
+	space: " ",
+	spacebar: " ",
+	up: "arrowup",
+	down: "arrowdown",
+	left: "arrowleft",
+	right: "arrowright",
+	del: "delete",
+	ins: "insert",
+	plus: "+",
+	comma: ",",
+};
+
+const MODIFIER_KEYS = ["shift", "control", "alt", "meta", "altgraph", "capslock"];
+
+const bindings: HotkeyBinding[] = [];
+const inactiveScopes = new Set<string>();
+let listening = false;
+
+function isApplePlatform(): boolean {
+	if (typeof navigator === "undefined") return false;
+	return /Mac|iPhone|iPad|iPod/.test(navigator.platform || navigator.userAgent);
+}
+
+/**
+ * parses a combo such as "mod+shift+k", `mod` is meta on Apple platforms
+ * and ctrl elsewhere
+ */
+function parseCombo(combo: string, source: string): KeyCombo {
+	const parts = combo.toLowerCase().split("+");
+	// a trailing "+" is the plus key itself, e.g "ctrl++"
+	if (parts.length > 1 && parts[parts.length - 1] === "" && parts[parts.length - 2] === "") {
+		parts.splice(-2, 2, "+");
+	}
+	const parsed: KeyCombo = { key: "", ctrl: false, alt: false, shift: false, meta: false };
+	parts.forEach((part, index) => {
+		const name = part.trim();
+		if (index === parts.length - 1) {
+			parsed.key = KEY_ALIASES[name] ?? name;
+			return;
+		}
+		switch (name) {
+			case "mod":
+				if (isApplePlatform()) parsed.meta = true;
+				else parsed.ctrl = true;
+				break;
+			case "ctrl":
+			case "control":
+				parsed.ctrl = true;
+				break;
+			case "alt":
+			case "option":
+				parsed.alt = true;
+				break;
+			case "shift":
+				parsed.shift = true;
+				break;
+			case "meta":
+			case "cmd":
+			case "command":
+				parsed.meta = true;
+				break;
+			default:
+				throw new Error(`vexd-js: unknown modifier "${name}" in hotkey "${source}"`);
+		}
+	});
+	if (!parsed.key) throw new Error(`vexd-js: invalid hotkey "${source}"`);
+	return parsed;
+}
+
+/**
+ * parses alternatives separated by commas, each a sequence of combos
+ * separated by "then"
+ */
+function parseHotkey(hotkey: string): KeyCombo[][] {
+	return hotkey
+		.split(/\s*,\s*(?!$)/)
+		.map((alternative) =>
+			alternative
+				.trim()
+				.split(/\s+then\s+/i)
+				.map((combo) => parseCombo(combo.trim(), hotkey))
+		);
+}
+
+/**
+ * the key from the physical key code, used when a modifier such as alt
+ * changes `e.key` to another character
+ */
+function keyFromCode(code: string): string | null {
+	if (/^Key[A-Z]$/.test(code)) return code.slice(3).toLowerCase();
+	if (/^Digit\d$/.test(code)) return code.slice(5);
+	return null;
+}
+
+function matchesCombo(e: KeyboardEvent, combo: KeyCombo): boolean {
+	const key = e.key.toLowerCase();
+	if (key !== combo.key && keyFromCode(e.code) !== combo.key) return false;
+	// symbols typed with shift (e.g "?") match without listing shift
+	const shiftProducesKey = combo.key.length === 1 && !/[a-z0-9]/.test(combo.key);
+	return (
+		e.ctrlKey === combo.ctrl &&
+		e.altKey === combo.alt &&
+		e.metaKey === combo.meta &&
+		(e.shiftKey === combo.shift || (shiftProducesKey && !combo.shift))
+	);
+}
+
+/**
+ * the element the key was pressed in, events from shadow roots are
+ * retargeted to their host by the time they reach the document
+ */
+function originalTarget(e: KeyboardEvent): EventTarget | null {
+	return typeof e.composedPath === "function" ? e.composedPath()[0] ?? e.target : e.target;
+}
+
+function isTyping(target: EventTarget | null): boolean {
+	if (!(target instanceof HTMLElement)) return false;
+	if (target.isContentEditable) return true;
+	const tagName = target.tagName;
+	if (tagName === "TEXTAREA" || tagName === "SELECT") return true;
+	if (tagName !== "INPUT") return false;
+	const type = (target as HTMLInputElement).type;
+	return !["checkbox", "radio", "button", "submit", "reset", "range", "color", "file"].includes(type);
+}
+
+function inScope(binding: HotkeyBinding, e: KeyboardEvent): boolean {
+	const { scope } = binding.options;
+	if (scope === undefined) return true;
+	if (typeof scope === "string") return !inactiveScopes.has(scope);
+	const root = scope instanceof VexdElement ? scope.native() : scope;
+	return typeof e.composedPath === "function"
+		? e.composedPath().includes(root)
+		: e.target instanceof Node && root.contains(e.target);
+}
+
+function onKeyDown(e: KeyboardEvent): void {
+	if (!e.key || MODIFIER_KEYS.includes(e.key.toLowerCase())) return;
+	const now = Date.now();
+	bindings.slice().forEach((binding) => {
+		const { options } = binding;
+		if (!options.inputs && isTyping(originalTarget(e))) return;
+		if (!inScope(binding, e)) return;
+
+		const expired = now - binding.lastKeyTime > (options.sequenceTimeout ?? 1000);
+		binding.lastKeyTime = now;
+		let completed = false;
+		binding.sequences.forEach((sequence, index) => {
+			let step = expired ? 0 : binding.progress[index];
+			if (!matchesCombo(e, sequence[step])) step = 0;
+			if (!matchesCombo(e, sequence[step])) {
+				binding.progress[index] = 0;
+				return;
+			}
+			step++;
+			if (step === sequence.length) {
+				completed = true;
+				step = 0;
+			}
+			binding.progress[index] = step;
+		});
+		if (!completed) return;
+		binding.progress = binding.progress.map(() => 0);
+		if (options.preventDefault !== false) e.preventDefault();
+		binding.handler(e);
+	});
+}
+
+/**
+ * registers a keyboard shortcut.
+ * @param hotkey - e.g "mod+k", "shift+?", "g then i" or alternatives "ctrl+s, mod+s".
+ * @param handler - Called with the keydown event of the final key.
+ * @param options - Scope, default prevention and input handling.
+ * @returns A function removing the shortcut.
+ * @throws Will throw an error if the hotkey cannot be parsed.
+ */
+export function hotkey(
+	hotkey: string,
+	handler: (e: KeyboardEvent) => void,
+	options: VexdHotkeyOptions = {}
+): VoidFunction {
+	const sequences = parseHotkey(hotkey);
+	const binding: HotkeyBinding = {
+		sequences,
+		handler,
+		options,
+		progress: sequences.map(() => 0),
+		lastKeyTime: 0,
+	};
+	bindings.push(binding);
+	if (!listening) {
+		document.addEventListener("keydown", onKeyDown);
+		listening = true;
+	}
+
+	const dispose = () => {
+		const index = bindings.indexOf(binding);
+		if (index === -1) return;
+		bindings.splice(index, 1);
+		if (bindings.length === 0 && listening) {
+			document.removeEventListener("keydown", onKeyDown);
+			listening = false;
+		}
+	};
+	if (options.scope instanceof VexdElement) options.scope.own(dispose);
+	return dispose;
+}
+
+/**
+ * switches a named scope on or off, scopes are active until switched off.
+ * @param name - Scope name.
+ * @param active - Whether shortcuts in the scope are handled.
+ */
+export function setHotkeyScope(name: string, active: boolean): void {
+	if (active) inactiveScopes.delete(name);
+	else inactiveScopes.add(name);
+}
+
+/**
+ * @param name - Scope name.
+ * @returns True if shortcuts in the scope are handled.
+ */
+export function isHotkeyScopeActive(name: string): boolean {
+	return !inactiveScopes.has(name);
+}
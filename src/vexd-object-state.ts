@@ -0,0 +1,142 @@
+/**
+ * @file vexd-object-state.ts
+ * @description Object state with focused, path based sub-states and structurally shared updates.
+ */
+
+import { VexdComputed, VexdState } from "./vexd-state";
+
+type Primitive = string | number | boolean | bigint | symbol | null | undefined;
+type Opaque = Primitive | Date | RegExp | Function | Map<any, any> | Set<any>;
+type Depth = [never, 0, 1, 2, 3, 4, 5, 6];
+
+/**
+ * dot separated paths into an object type, array indices are numbers
+ * (e.g "user.address.city" or "todos.0.done")
+ */
+export type Path<T, D extends number = 6> = [D] extends [never]
+	? never
+	: T extends Opaque
+	? never
+	: T extends readonly (infer U)[]
+	? `${number}` | `${number}.${Path<U, Depth[D]>}`
+	: {
+			[K in keyof T & string]:
+				| K
+				| (NonNullable<T[K]> extends Opaque
+						? never
+						: `${K}.${Path<NonNullable<T[K]>, Depth[D]>}`);
+	  }[keyof T & string];
+
+type Step<T, K extends string> = T extends null | undefined
+	? undefined
+	: T extends readonly (infer U)[]
+	? K extends `${number}`
+		? U
+		: never
+	: K extends keyof T
+	? T[K]
+	: never;
+
+/**
+ * the type of the value found at a path
+ */
+export type PathValue<T, P extends string> = P extends `${infer K}.${infer Rest}`
+	? PathValue<Step<T, K>, Rest>
+	: Step<T, P>;
+
+function getIn(target: any, segments: string[]): any {
+	return segments.reduce(
+		(cursor, key) => (cursor === null || cursor === undefined ? undefined : cursor[key]),
+		target
+	);
+}
+
+/**
+ * returns a copy of target with the value at the path replaced, objects
+ * off the path are shared with the original and nothing is copied when
+ * the value is unchanged
+ */
+function setIn(target: any, segments: string[], value: unknown): any {
+	if (segments.length === 0) return value;
+	const [key, ...rest] = segments;
+	const current = target === null || target === undefined ? undefined : target[key];
+	const next = setIn(current, rest, value);
+	if (current === next && target !== null && target !== undefined) return target;
+
+	if (Array.isArray(target)) {
+		const copy = target.slice();
+		copy[Number(key)] = next;
+		return copy;
+	}
+	if (target === null || target === undefined) {
+		return /^\d+$/.test(key) ? Object.assign([], { [key]: next }) : { [key]: next };
+	}
+	return { ...target, [key]: next };
+}
+
+/**
+ * a read/write view of the value at a path inside a VexdObjectState,
+ * subscribers only run when the value at that path changes
+ */
+export class VexdFocusedState<V> extends VexdComputed<V> {
+	constructor(
+		private readonly root: VexdObjectState<any>,
+		private readonly segments: string[]
+	) {
+		super(() => getIn(root.state, segments));
+	}
+
+	/**
+	 * Update the value at the path, the root receives a structurally
+	 * shared copy
+	 * @param newState New value or function to transform the current value
+	 */
+	public setState(newState: V | ((oldState: V) => V)): void {
+		const nextValue =
+			typeof newState === "function"
+				? (newState as (oldState: V) => V)(this.peek())
+				: newState;
+		this.root.setState((previous: object) =>
+			setIn(previous, this.segments, nextValue)
+		);
+	}
+
+	/**
+	 * Focus on a path relative to this one
+	 * @param path Dot separated path
+	 * @returns The focused state
+	 */
+	public at<P extends Path<V> & string>(path: P): VexdFocusedState<PathValue<V, P>> {
+		return this.root.focus(this.segments.concat(path.split(".")));
+	}
+}
+
+/**
+ * state holding an object, `at` returns focused sub-states for nested
+ * values that can be read, set and subscribed to on their own
+ */
+export class VexdObjectState<T extends object> extends VexdState<T> {
+	private focused = new Map<string, VexdFocusedState<any>>();
+
+	/**
+	 * Focus on a nested value
+	 * @param path Dot separated path (e.g "user.address.city")
+	 * @returns The focused state, the same instance is returned for a path
+	 */
+	public at<P extends Path<T> & string>(path: P): VexdFocusedState<PathValue<T, P>> {
+		return this.focus(path.split("."));
+	}
+
+	/**
+	 * @internal
+	 */
+	public focus(segments: string[]): VexdFocusedState<any> {
+		const key = segments.join(".");
+		let focusedState = this.focused.get(key);
+		if (!focusedState) {
+			focusedState = new VexdFocusedState(this, segments);
+			this.focused.set(key, focusedState);
+		}
+		return focusedState;
+	}
+}
@@ -0,0 +1,169 @@
+/**
+ * @file vexd-persisted-state.ts
+ * @description State that is saved to storage, versioned and synced across tabs.
+ */
+
+import { VexdState } from "./vexd-state";
+
+/**
+ * the subset of the Storage interface persisted state needs, localStorage
+ * and sessionStorage can be passed directly
+ */
+export interface VexdStorageAdapter {
+	getItem(key: string): string | null;
+	setItem(key: string, value: string): void;
+	removeItem(key: string): void;
+	/** optional change feed for adapters that are not a Storage area */
+	subscribe?(key: string, callback: (raw: string | null) => void): VoidFunction;
+}
+
+export interface VexdPersistOptions<T> {
+	/** defaults to localStorage, or memory when it is unavailable */
+	storage?: VexdStorageAdapter;
+	serialize?: (value: T) => string;
+	deserialize?: (raw: string) => T;
+	/** bump when the shape of the stored value changes (defaults to 0) */
+	version?: number;
+	/**
+	 * upgrades a value stored under an older version, values written
+	 * before versioning (plain serialized values) have version -1
+	 */
+	migrate?: (value: any, storedVersion: number) => T;
+	/** called when a stored value cannot be read, the initial value is used */
+	onError?: (error: unknown) => void;
+}
+
+interface StoredEnvelope {
+	version: number;
+	value: string;
+}
+
+/** the version of values stored without an envelope */
+const LEGACY_VERSION = -1;
+
+function parseEnvelope(raw: string): StoredEnvelope | null {
+	try {
+		const parsed = JSON.parse(raw);
+		const isEnvelope =
+			typeof parsed === "object" &&
+			parsed !== null &&
+			typeof parsed.version === "number" &&
+			typeof parsed.value === "string";
+		return isEnvelope ? parsed : null;
+	} catch {
+		return null;
+	}
+}
+
+function memoryStorage(): VexdStorageAdapter {
+	const items = new Map<string, string>();
+	return {
+		getItem: (key) => items.get(key) ?? null,
+		setItem: (key, value) => void items.set(key, value),
+		removeItem: (key) => void items.delete(key),
+	};
+}
+
+function defaultStorage(): VexdStorageAdapter {
+	try {
+		if (typeof localStorage !== "undefined") return localStorage;
+	} catch {
+		// accessing localStorage throws when storage is disabled
+	}
+	return memoryStorage();
+}
+
+/**
+ * state that reads its initial value from storage and writes every change
+ * back, other tabs writing the same key update it through storage events
+ */
+export class VexdPersistedState<T> extends VexdState<T> {
+	private readonly key: string;
+	private readonly initialValue: T;
+	private readonly storage: VexdStorageAdapter;
+	private readonly options: VexdPersistOptions<T>;
+	private readonly stopSync: VoidFunction;
+
+	constructor(key: string, initialValue: T, options: VexdPersistOptions<T> = {}) {
+		super(initialValue);
+		this.key = key;
+		this.initialValue = initialValue;
+		this.options = options;
+		this.storage = options.storage ?? defaultStorage();
+		this.value = this.read(this.storage.getItem(key));
+		this.stopSync = this.listen();
+	}
+
+	/**
+	 * Update state and write it to storage
+	 * @param newState New value or function to transform the current state
+	 */
+	public setState(newState: T | ((oldState: T) => T)): void {
+		const previousValue = this.value;
+		super.setState(newState);
+		if (this.value !== previousValue) this.write(this.value);
+	}
+
+	/**
+	 * Remove the stored value and go back to the initial value
+	 */
+	public reset(): void {
+		this.storage.removeItem(this.key);
+		super.setState(this.initialValue);
+	}
+
+	/**
+	 * Stop listening for changes made in other tabs
+	 */
+	public dispose(): void {
+		this.stopSync();
+	}
+
+	private write(value: T): void {
+		const { serialize = JSON.stringify, version = 0 } = this.options;
+		const envelope: StoredEnvelope = { version, value: serialize(value) };
+		try {
+			this.storage.setItem(this.key, JSON.stringify(envelope));
+		} catch (error) {
+			this.options.onError?.(error);
+		}
+	}
+
+	/**
+	 * parses a stored envelope, falling back to the initial value when it is
+	 * missing, corrupted or from another version without a migration. a
+	 * value stored without an envelope is treated as version -1.
+	 */
+	private read(raw: string | null): T {
+		if (raw === null) return this.initialValue;
+		const { deserialize = JSON.parse, version = 0, migrate } = this.options;
+		try {
+			const envelope = parseEnvelope(raw);
+			const storedVersion = envelope ? envelope.version : LEGACY_VERSION;
+			const value = deserialize(envelope ? envelope.value : raw);
+			if (storedVersion === version) return value;
+			if (!migrate) return this.initialValue;
+			const migrated = migrate(value, storedVersion);
+			this.write(migrated);
+			return migrated;
+		} catch (error) {
+			this.storage.removeItem(this.key);
+			this.options.onError?.(error);
+			return this.initialValue;
+		}
+	}
+
+	private listen(): VoidFunction {
+		const apply = (raw: string | null) => super.setState(this.read(raw));
+
+		if (this.storage.subscribe) return this.storage.subscribe(this.key, apply);
+		if (typeof window === "undefined") return () => {};
+
+		const onStorage = (e: StorageEvent) => {
+			if (e.key === this.key && e.storageArea === this.storage) apply(e.newValue);
+			else if (e.key === null && e.storageArea === this.storage) apply(null);
+		};
+		window.addEventListener("storage", onStorage);
+		return () => window.removeEventListener("storage", onStorage);
+	}
+}
@@ -0,0 +1,104 @@
+/**
+ * @file vexd-reconcile.ts
+ * @description Keyed reconciliation of a container's children against a list of items.
+ */
+
+export interface KeyedEntry<T> {
+	item: T;
+	node: HTMLElement;
+}
+
+/**
+ * returns the indices of the longest strictly increasing subsequence,
+ * negative values are treated as absent and never included
+ * @param sequence Values to search
+ * @returns Set of indices that belong to the subsequence
+ */
+function longestIncreasingSubsequence(sequence: number[]): Set<number> {
+	const tails: number[] = [];
+	const previous: number[] = new Array(sequence.length).fill(-1);
+
+	sequence.forEach((value, index) => {
+		if (value < 0) return;
+		let low = 0;
+		let high = tails.length;
+		while (low < high) {
+			const mid = (low + high) >> 1;
+			if (sequence[tails[mid]] < value) low = mid + 1;
+			else high = mid;
+		}
+		if (low > 0) previous[index] = tails[low - 1];
+		tails[low] = index;
+	});
+
+	const result = new Set<number>();
+	let cursor = tails.length > 0 ? tails[tails.length - 1] : -1;
+	while (cursor !== -1) {
+		result.add(cursor);
+		cursor = previous[cursor];
+	}
+	return result;
+}
+
+/**
+ * reconciles the children of a container with a list of items by key,
+ * nodes whose item is unchanged are reused and only moved when needed
+ * @param container Element whose children are managed
+ * @param previous Entries from the previous reconciliation
+ * @param items The new list of items
+ * @param keyFn Returns a unique key for an item
+ * @param render Creates the node for a new or changed item
+ * @returns Entries to pass to the next reconciliation
+ * @throws Will throw an error if two items share a key
+ */
+export function reconcileKeyed<T, K>(
+	container: HTMLElement,
+	previous: Map<K, KeyedEntry<T>>,
+	items: T[],
+	keyFn: (item: T, index: number) => K,
+	render: (item: T, index: number) => HTMLElement
+): Map<K, KeyedEntry<T>> {
+	const next = new Map<K, KeyedEntry<T>>();
+	const nodes: HTMLElement[] = [];
+
+	// keys are checked before rendering so a duplicate leaves no nodes behind
+	const keys = items.map((item, index) => keyFn(item, index));
+	const seen = new Set<K>();
+	keys.forEach((key) => {
+		if (seen.has(key)) {
+			throw new Error(`vexd-js: duplicate key in list: ${String(key)}`);
+		}
+		seen.add(key);
+	});
+
+	items.forEach((item, index) => {
+		const key = keys[index];
+		const existing = previous.get(key);
+		const entry =
+			existing && existing.item === item
+				? existing
+				: { item, node: render(item, index) };
+		next.set(key, entry);
+		nodes.push(entry.node);
+	});
+
+	previous.forEach((entry, key) => {
+		const kept = next.get(key);
+		if (!kept || kept.node !== entry.node) entry.node.remove();
+	});
+
+	const currentIndex = new Map<Node, number>();
+	Array.from(container.childNodes).forEach((node, index) =>
+		currentIndex.set(node, index)
+	);
+	const stable = longestIncreasingSubsequence(
+		nodes.map((node) => currentIndex.get(node) ?? -1)
+	);
+
+	for (let i = nodes.length - 1; i >= 0; i--) {
+		if (stable.has(i)) continue;
+		container.insertBefore(nodes[i], nodes[i + 1] ?? null);
+	}
+
+	return next;
+}
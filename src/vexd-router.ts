@@ -0,0 +1,466 @@
+/**
+ * @file vexd-router.ts
+ * @description Client-side routing over the History API or the location hash.
+ */
+
+import { VexdState } from "./vexd-state";
+
+export type VexdQuery = Record<string, string | string[]>;
+
+/**
+ * return false to cancel the navigation or a path to redirect to it
+ */
+export type VexdGuard = (
+	to: VexdRoute,
+	from: VexdRoute | null
+) => boolean | string | void | Promise<boolean | string | void>;
+
+export interface VexdRouteDefinition {
+	/** `:name` captures a segment and `*` the rest of the path, relative to the parent */
+	path: string;
+	name?: string;
+	children?: VexdRouteDefinition[];
+	redirect?: string | ((to: VexdRoute) => string);
+	beforeEnter?: VexdGuard;
+	/** any value the application renders for the route (e.g a render function) */
+	view?: unknown;
+	/** loads the view on first visit, the navigation waits for it */
+	load?: () => Promise<unknown>;
+	meta?: Record<string, any>;
+}
+
+export interface VexdRoute {
+	/** the path without the query and hash */
+	path: string;
+	/** the path including the query and hash */
+	fullPath: string;
+	params: Record<string, string>;
+	query: VexdQuery;
+	hash: string;
+	/** the matched definitions from the outermost parent to the leaf */
+	matched: VexdRouteDefinition[];
+	/** the view (or loaded view) of each matched definition */
+	views: unknown[];
+	/** meta of every matched definition merged, children win */
+	meta: Record<string, any>;
+	name?: string;
+}
+
+export interface VexdRouterOptions {
+	routes: VexdRouteDefinition[];
+	/** defaults to "history" */
+	mode?: "history" | "hash";
+	/** path prefix the application is served from in history mode (e.g "/app") */
+	base?: string;
+	/** runs before the guards of the matched routes */
+	beforeEach?: VexdGuard;
+	/** restore scroll positions on back/forward and scroll to the top otherwise (defaults to true) */
+	scroll?: boolean;
+	/** links whose clicks are handled by the router (defaults to "a[data-link]") */
+	linkSelector?: string;
+	/** called when a guard or loader throws, the error is also stored in `error` */
+	onError?: (error: unknown, to: string) => void;
+}
+
+interface RouteRecord {
+	pattern: RegExp;
+	keys: string[];
+	matched: VexdRouteDefinition[];
+}
+
+type NavigationMode = "push" | "replace" | "pop";
+
+const MAX_REDIRECTS = 10;
+
+function joinPaths(parent: string, child: string): string {
+	if (child.startsWith("/")) return child;
+	return `${parent.replace(/\/$/, "")}/${child}`;
+}
+
+function compilePath(path: string): { pattern: RegExp; keys: string[] } {
+	const keys: string[] = [];
+	const source = path
+		.split("/")
+		.filter(Boolean)
+		.map((segment) => {
+			if (segment === "*") {
+				keys.push("*");
+				return "(?:/(.*))?";
+			}
+			if (segment.startsWith(":")) {
+				keys.push(segment.slice(1));
+				return "/([^/]+)";
+			}
+			return `/${segment.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}`;
+		})
+		.join("");
+	return { pattern: new RegExp(`^${source || "/"}/?$`, "i"), keys };
+}
+
+/**
+ * flattens nested definitions, children are listed before their parent so
+ * the most specific route matches first
+ */
+function flattenRoutes(
+	routes: VexdRouteDefinition[],
+	parentPath = "/",
+	parents: VexdRouteDefinition[] = []
+): RouteRecord[] {
+	return routes.reduce<RouteRecord[]>((records, route) => {
+		const path = joinPaths(parentPath, route.path);
+		const matched = parents.concat(route);
+		const children = route.children
+			? flattenRoutes(route.children, path, matched)
+			: [];
+		return records.concat(children, { ...compilePath(path), matched });
+	}, []);
+}
+
+/**
+ * parses a query string, repeated keys become arrays
+ */
+export function parseQuery(search: string): VexdQuery {
+	const query: VexdQuery = {};
+	new URLSearchParams(search).forEach((value, key) => {
+		const existing = query[key];
+		if (existing === undefined) query[key] = value;
+		else query[key] = ([] as string[]).concat(existing, value);
+	});
+	return query;
+}
+
+/**
+ * builds a query string (with a leading `?` unless empty)
+ */
+export function stringifyQuery(query: VexdQuery): string {
+	const params = new URLSearchParams();
+	Object.keys(query).forEach((key) => {
+		([] as string[]).concat(query[key]).forEach((value) => params.append(key, value));
+	});
+	const search = params.toString();
+	return search ? `?${search}` : "";
+}
+
+export class VexdRouter {
+	/** the active route, null until the first navigation has finished */
+	readonly current = new VexdState<VexdRoute | null>(null);
+	/** true while guards and loaders of a navigation are pending */
+	readonly loading = new VexdState<boolean>(false);
+	/** what the last navigation failed with, cleared when the next one starts */
+	readonly error = new VexdState<unknown>(null);
+
+	private readonly records: RouteRecord[];
+	private readonly options: VexdRouterOptions;
+	private readonly base: string;
+	private readonly loaded = new Map<VexdRouteDefinition, Promise<unknown>>();
+	private readonly views = new Map<VexdRouteDefinition, unknown>();
+	private readonly scrollPositions = new Map<number, { x: number; y: number }>();
+	private navigationId = 0;
+	private index = 0;
+	private ignoreNextPop = false;
+	private stopListening: VoidFunction | null = null;
+
+	constructor(options: VexdRouterOptions) {
+		this.options = options;
+		this.records = flattenRoutes(options.routes);
+		this.base = (options.base ?? "").replace(/\/$/, "");
+	}
+
+	/**
+	 * starts listening for link clicks and history changes and navigates to
+	 * the current location.
+	 * @returns {Promise<boolean>} Resolves once the initial navigation settles.
+	 */
+	start(): Promise<boolean> {
+		if (this.stopListening) return Promise.resolve(true);
+		if (this.options.scroll !== false && "scrollRestoration" in history) {
+			history.scrollRestoration = "manual";
+		}
+		this.index = history.state?.vexdIndex ?? 0;
+		history.replaceState({ ...history.state, vexdIndex: this.index }, "");
+
+		const onPopState = (e: PopStateEvent) => this.onPopState(e);
+		const onClick = (e: MouseEvent) => this.onLinkClick(e);
+		window.addEventListener("popstate", onPopState);
+		document.addEventListener("click", onClick);
+		this.stopListening = () => {
+			window.removeEventListener("popstate", onPopState);
+			document.removeEventListener("click", onClick);
+		};
+		return this.navigate(this.location(), "replace");
+	}
+
+	/**
+	 * stops listening for link clicks and history changes.
+	 */
+	stop(): void {
+		this.stopListening?.();
+		this.stopListening = null;
+	}
+
+	/**
+	 * navigates to a path, adding a history entry.
+	 * @param {string} to - Path with an optional query and hash.
+	 * @returns {Promise<boolean>} Resolves with false if the navigation was cancelled or failed.
+	 */
+	push(to: string): Promise<boolean> {
+		return this.navigate(to, "push");
+	}
+
+	/**
+	 * navigates to a path, replacing the current history entry.
+	 * @param {string} to - Path with an optional query and hash.
+	 * @returns {Promise<boolean>} Resolves with false if the navigation was cancelled or failed.
+	 */
+	replace(to: string): Promise<boolean> {
+		return this.navigate(to, "replace");
+	}
+
+	back(): void {
+		history.back();
+	}
+
+	forward(): void {
+		history.forward();
+	}
+
+	/**
+	 * matches a path against the routes without navigating.
+	 * @param {string} to - Path with an optional query and hash.
+	 * @returns {VexdRoute} The route, `matched` is empty when nothing matches.
+	 */
+	resolve(to: string): VexdRoute {
+		const hashIndex = to.indexOf("#");
+		const hash = hashIndex === -1 ? "" : to.slice(hashIndex);
+		const withoutHash = hashIndex === -1 ? to : to.slice(0, hashIndex);
+		const queryIndex = withoutHash.indexOf("?");
+		const path =
+			(queryIndex === -1 ? withoutHash : withoutHash.slice(0, queryIndex)) || "/";
+		const search = queryIndex === -1 ? "" : withoutHash.slice(queryIndex);
+		const query = parseQuery(search);
+
+		const route: VexdRoute = {
+			path,
+			fullPath: `${path}${stringifyQuery(query)}${hash}`,
+			params: {},
+			query,
+			hash,
+			matched: [],
+			views: [],
+			meta: {},
+		};
+		for (const record of this.records) {
+			const match = record.pattern.exec(path);
+			if (!match) continue;
+			record.keys.forEach((key, i) => {
+				const value = match[i + 1];
+				if (value !== undefined) route.params[key] = decodeURIComponent(value);
+			});
+			route.matched = record.matched;
+			route.views = record.matched.map((definition) =>
+				this.views.has(definition) ? this.views.get(definition) : definition.view
+			);
+			route.meta = record.matched.reduce(
+				(meta, definition) => ({ ...meta, ...definition.meta }),
+				{}
+			);
+			route.name = record.matched[record.matched.length - 1].name;
+			break;
+		}
+		return route;
+	}
+
+	/**
+	 * the href of a path for the router's mode and base.
+	 * @param {string} to - Path with an optional query and hash.
+	 * @returns {string}
+	 */
+	href(to: string): string {
+		return this.options.mode === "hash" ? `#${to}` : `${this.base}${to}`;
+	}
+
+	/**
+	 * runs a navigation, a guard or loader that throws fails it: the error is
+	 * stored in `error` and reported instead of rejecting
+	 */
+	private navigate(
+		to: string,
+		mode: NavigationMode,
+		targetIndex = this.index,
+		redirects = 0
+	): Promise<boolean> {
+		this.error.setState(null);
+		return this.runNavigation(to, mode, targetIndex, redirects).catch((error) => {
+			if (mode === "pop") this.restoreEntry(targetIndex);
+			this.error.setState(error);
+			this.options.onError?.(error, to);
+			return false;
+		});
+	}
+
+	private async runNavigation(
+		to: string,
+		mode: NavigationMode,
+		targetIndex: number,
+		redirects: number
+	): Promise<boolean> {
+		if (redirects > MAX_REDIRECTS) {
+			throw new Error(`vexd-js: too many redirects while navigating to "${to}"`);
+		}
+		const id = ++this.navigationId;
+		const from = this.current.peek();
+		const redirect = (path: string) =>
+			this.navigate(path, mode === "push" ? "push" : "replace", targetIndex, redirects + 1);
+
+		let route = this.resolve(to);
+		const leaf = route.matched[route.matched.length - 1];
+		if (leaf?.redirect) {
+			return redirect(
+				typeof leaf.redirect === "function" ? leaf.redirect(route) : leaf.redirect
+			);
+		}
+
+		this.loading.setState(true);
+		try {
+			const guards = [this.options.beforeEach]
+				.concat(route.matched.map((definition) => definition.beforeEnter))
+				.filter((guard): guard is VexdGuard => !!guard);
+			for (const guard of guards) {
+				const result = await guard(route, from);
+				if (id !== this.navigationId) return false;
+				if (typeof result === "string") return redirect(result);
+				if (result === false) {
+					if (mode === "pop") this.restoreEntry(targetIndex);
+					return false;
+				}
+			}
+
+			await Promise.all(route.matched.map((definition) => this.load(definition)));
+			if (id !== this.navigationId) return false;
+			route = this.resolve(to);
+		} finally {
+			if (id === this.navigationId) this.loading.setState(false);
+		}
+
+		this.scrollPositions.set(this.index, { x: window.scrollX, y: window.scrollY });
+		this.commit(route, mode, targetIndex);
+		this.current.setState(route);
+		if (this.options.scroll !== false) this.scroll(route, mode);
+		return true;
+	}
+
+	private load(definition: VexdRouteDefinition): Promise<unknown> {
+		if (!definition.load || this.views.has(definition)) return Promise.resolve();
+		let pending = this.loaded.get(definition);
+		if (!pending) {
+			pending = definition.load().then(
+				(view) => {
+					this.views.set(definition, view);
+					this.loaded.delete(definition);
+				},
+				(error) => {
+					this.loaded.delete(definition);
+					throw error;
+				}
+			);
+			this.loaded.set(definition, pending);
+		}
+		return pending;
+	}
+
+	private commit(route: VexdRoute, mode: NavigationMode, targetIndex: number): void {
+		const url = this.href(route.fullPath);
+		if (mode === "push") {
+			this.index = this.index + 1;
+			this.scrollPositions.forEach((_, index) => {
+				if (index >= this.index) this.scrollPositions.delete(index);
+			});
+			history.pushState({ vexdIndex: this.index }, "", url);
+			return;
+		}
+		this.index = targetIndex;
+		history.replaceState({ ...history.state, vexdIndex: this.index }, "", url);
+	}
+
+	private scroll(route: VexdRoute, mode: NavigationMode): void {
+		const saved = mode === "pop" ? this.scrollPositions.get(this.index) : undefined;
+		if (saved) {
+			window.scrollTo(saved.x, saved.y);
+			return;
+		}
+		const target = route.hash ? document.getElementById(route.hash.slice(1)) : null;
+		if (target) target.scrollIntoView();
+		else window.scrollTo(0, 0);
+	}
+
+	/**
+	 * moves back to the entry that was active before a cancelled back or
+	 * forward navigation
+	 */
+	private restoreEntry(targetIndex: number): void {
+		const current = this.current.peek();
+		if (targetIndex === this.index || !current) {
+			if (current) history.replaceState({ vexdIndex: this.index }, "", this.href(current.fullPath));
+			return;
+		}
+		this.ignoreNextPop = true;
+		history.go(this.index - targetIndex);
+	}
+
+	private onPopState(e: PopStateEvent): void {
+		if (this.ignoreNextPop) {
+			this.ignoreNextPop = false;
+			return;
+		}
+		const targetIndex: number | undefined = e.state?.vexdIndex;
+		// an entry without an index comes from editing the url by hand
+		this.navigate(this.location(), "pop", targetIndex ?? this.index + 1);
+	}
+
+	private onLinkClick(e: MouseEvent): void {
+		if (
+			e.defaultPrevented ||
+			e.button !== 0 ||
+			e.metaKey ||
+			e.ctrlKey ||
+			e.shiftKey ||
+			e.altKey
+		) {
+			return;
+		}
+		const link = (e.target as Element | null)?.closest?.(
+			this.options.linkSelector ?? "a[data-link]"
+		) as HTMLAnchorElement | null;
+		if (!link || link.hasAttribute("download")) return;
+		if (link.target && link.target !== "_self") return;
+
+		const href = link.getAttribute("href");
+		if (href === null) return;
+		let to: string;
+		if (href.startsWith("#")) {
+			if (this.options.mode !== "hash") return;
+			to = href.slice(1) || "/";
+		} else {
+			const url = new URL(href, location.href);
+			if (url.origin !== location.origin) return;
+			to = this.stripBase(url.pathname) + url.search + url.hash;
+		}
+		e.preventDefault();
+		this.push(to);
+	}
+
+	private stripBase(pathname: string): string {
+		if (this.base && pathname.startsWith(this.base)) {
+			return pathname.slice(this.base.length) || "/";
+		}
+		return pathname;
+	}
+
+	/**
+	 * the router path of the current location
+	 */
+	private location(): string {
+		if (this.options.mode === "hash") return location.hash.slice(1) || "/";
+		return this.stripBase(location.pathname) + location.search + location.hash;
+	}
+}
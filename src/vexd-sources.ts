@@ -0,0 +1,175 @@
+/**
+ * @file vexd-sources.ts
+ * @description Adapters turning events, promises, media queries and observables into state.
+ */
+
+import { VexdElement } from "./vexd-element";
+import { VexdState } from "./vexd-state";
+
+export type VexdPromiseStatus = "pending" | "fulfilled" | "rejected";
+
+export interface VexdPromiseState<T> {
+	status: VexdPromiseStatus;
+	value: T | undefined;
+	error: unknown;
+}
+
+/**
+ * anything with a subscribe method, e.g RxJS observables or svelte stores
+ */
+export interface VexdSubscribable<T> {
+	subscribe(
+		next: (value: T) => void
+	): { unsubscribe(): void } | (() => void);
+}
+
+/**
+ * state fed by an external source, `dispose` stops listening to it
+ */
+export class VexdSourceState<T> extends VexdState<T> {
+	private disconnect: VoidFunction | null;
+
+	constructor(
+		initialValue: T,
+		connect: (set: (value: T) => void) => VoidFunction
+	) {
+		super(initialValue);
+		this.disconnect = connect((value) => this.setState(() => value));
+	}
+
+	/**
+	 * Stop listening to the source, the last value is kept
+	 */
+	public dispose(): void {
+		this.disconnect?.();
+		this.disconnect = null;
+	}
+}
+
+/**
+ * state holding the latest value selected from an event. listeners on a
+ * VexdElement are owned by it and removed with the element.
+ * @param target - Element or other event target to listen on.
+ * @param eventName - Event name.
+ * @param select - Maps each event to the state's value.
+ * @param initialValue - Value before the first event.
+ * @returns {VexdSourceState<T>} The state.
+ */
+export function fromEvent<T>(
+	target: EventTarget | VexdElement,
+	eventName: string,
+	select: (e: Event) => T,
+	initialValue: T
+): VexdSourceState<T>;
+export function fromEvent<T>(
+	target: EventTarget | VexdElement,
+	eventName: string,
+	select: (e: Event) => T
+): VexdSourceState<T | undefined>;
+export function fromEvent<T>(
+	target: EventTarget | VexdElement,
+	eventName: string,
+	select: (e: Event) => T,
+	initialValue?: T
+): VexdSourceState<T | undefined> {
+	return new VexdSourceState<T | undefined>(initialValue, (set) => {
+		const listener = (e: Event) => set(select(e));
+		if (target instanceof VexdElement) return target.event(eventName, listener);
+		target.addEventListener(eventName, listener);
+		return () => target.removeEventListener(eventName, listener);
+	});
+}
+
+/**
+ * state following a promise through pending, fulfilled and rejected.
+ * @param promise - A promise, or a function returning one.
+ * @returns {VexdState<VexdPromiseState<T>>} The state.
+ */
+export function fromPromise<T>(
+	promise: Promise<T> | (() => Promise<T>)
+): VexdState<VexdPromiseState<T>> {
+	const result = new VexdState<VexdPromiseState<T>>({
+		status: "pending",
+		value: undefined,
+		error: undefined,
+	});
+	const pending = typeof promise === "function" ? promise() : promise;
+	pending.then(
+		(value) => result.setState({ status: "fulfilled", value, error: undefined }),
+		(error) => result.setState({ status: "rejected", value: undefined, error })
+	);
+	return result;
+}
+
+/**
+ * state tracking whether a media query matches, false where matchMedia is
+ * unavailable.
+ * @param query - Media query, e.g "(max-width: 600px)".
+ * @returns {VexdSourceState<boolean>} The state.
+ */
+export function fromMediaQuery(query: string): VexdSourceState<boolean> {
+	if (typeof matchMedia !== "function") {
+		return new VexdSourceState<boolean>(false, () => () => {});
+	}
+	const list = matchMedia(query);
+	return new VexdSourceState<boolean>(list.matches, (set) => {
+		const listener = (e: MediaQueryListEvent) => set(e.matches);
+		if (typeof list.addEventListener === "function") {
+			list.addEventListener("change", listener);
+			return () => list.removeEventListener("change", listener);
+		}
+		// Safari < 14 only supports the deprecated listener methods
+		list.addListener(listener);
+		return () => list.removeListener(listener);
+	});
+}
+
+/**
+ * state holding the latest value emitted by a subscribable.
+ * @param observable - Anything with a `subscribe(next)` method.
+ * @param initialValue - Value before the first emission.
+ * @returns {VexdSourceState<T>} The state.
+ */
+export function fromObservable<T>(
+	observable: VexdSubscribable<T>,
+	initialValue: T
+): VexdSourceState<T>;
+export function fromObservable<T>(
+	observable: VexdSubscribable<T>
+): VexdSourceState<T | undefined>;
+export function fromObservable<T>(
+	observable: VexdSubscribable<T>,
+	initialValue?: T
+): VexdSourceState<T | undefined> {
+	return new VexdSourceState<T | undefined>(initialValue, (set) => {
+		const subscription = observable.subscribe(set);
+		return typeof subscription === "function"
+			? subscription
+			: () => subscription.unsubscribe();
+	});
+}
+
+/**
+ * waits for a state to match a predicate, resolving immediately if it
+ * already does.
+ * @param source - State to watch.
+ * @param predicate - Test for the value (defaults to truthiness).
+ * @returns {Promise<T>} Resolves with the first matching value.
+ */
+export function until<T>(
+	source: VexdState<T>,
+	predicate: (value: T) => boolean = Boolean
+): Promise<T> {
+	return new Promise<T>((resolve) => {
+		const initial = source.peek();
+		if (predicate(initial)) {
+			resolve(initial);
+			return;
+		}
+		const unsubscribe = source.sideEffect((value) => {
+			if (!predicate(value)) return;
+			unsubscribe();
+			resolve(value);
+		});
+	});
+}
@@ -0,0 +1,353 @@
+/**
+ * @file vexd-ssr.ts
+ * @description Rendering templates to HTML strings without a DOM and hydrating the markup on the client.
+ */
+
+import { VexdElement } from "./vexd-element";
+import { VexdState } from "./vexd-state";
+import {
+	AttributePart,
+	attributeValue,
+	bindAttributePart,
+	ChildRenderer,
+	createChildRenderer,
+	getCompiledTemplate,
+	read,
+	renderTemplate,
+	UnsafeHTML,
+	VexdTemplateResult,
+} from "./vexd-template";
+
+declare const process: { env: { NODE_ENV?: string } } | undefined;
+
+export interface VexdHydrateOptions {
+	/**
+	 * called for every difference between the markup and the template,
+	 * defaults to console.warn outside production builds
+	 */
+	onMismatch?: (message: string) => void;
+}
+
+type MismatchReporter = ((message: string) => void) | null;
+
+interface ChildMarkers {
+	open: Comment;
+	close: Comment;
+	/** the nodes rendered for the hole, between its markers */
+	nodes: Node[];
+}
+
+interface Markers {
+	elements: Element[];
+	children: ChildMarkers[];
+}
+
+const ESCAPES: Record<string, string> = {
+	"&": "&amp;",
+	"<": "&lt;",
+	">": "&gt;",
+	'"': "&quot;",
+	"'": "&#39;",
+};
+
+const escapeHTML = (text: string) => text.replace(/[&<>"']/g, (char) => ESCAPES[char]);
+
+const isDevelopment = () =>
+	typeof process === "undefined" || process.env.NODE_ENV !== "production";
+
+function childHTML(value: unknown): string {
+	if (value === null || value === undefined || value === false) return "";
+	// items are wrapped so hydration can tell where each one starts
+	if (Array.isArray(value)) {
+		return value.map((item) => `<!--vx-item-->${childHTML(item)}<!--/vx-item-->`).join("");
+	}
+	if (value instanceof VexdState) return childHTML(value.peek());
+	if (value instanceof VexdTemplateResult) return renderToString(value);
+	if (value instanceof UnsafeHTML) return value.html;
+	if (value instanceof VexdElement) return value.native().outerHTML;
+	if (typeof Node !== "undefined" && value instanceof Node) {
+		return value instanceof Element ? value.outerHTML : escapeHTML(value.textContent ?? "");
+	}
+	return escapeHTML(String(value));
+}
+
+function attributeHTML(part: AttributePart, values: readonly unknown[]): string {
+	if (part.kind === "event" || part.kind === "property") return "";
+	if (part.kind === "boolean") {
+		return read(values[part.valueIndices[0]]) ? ` ${part.name}` : "";
+	}
+	// the marker is placed on the tag, the content follows it
+	if (part.kind === "text") return `>${escapeHTML(attributeValue(part, values) ?? "")}`;
+	const value = attributeValue(part, values);
+	return value === null ? "" : ` ${part.name}="${escapeHTML(value)}"`;
+}
+
+/**
+ * renders a template to HTML without a DOM, interpolated values are
+ * escaped unless wrapped with `unsafeHTML` and states render their current
+ * value. the output contains the comment and attribute markers `hydrate`
+ * uses to find the bindings again.
+ * @param template - A template created with the `html` tag.
+ * @returns The rendered markup.
+ */
+export function renderToString(template: VexdTemplateResult): string {
+	const { compiled } = getCompiledTemplate(template.strings);
+	const last = compiled.segments.length - 1;
+	return compiled.segments
+		.map((segment, i) => {
+			if (typeof segment === "string") {
+				// matches the trimming of templates rendered in the browser
+				let markup = i === 0 ? segment.replace(/^\s+/, "") : segment;
+				if (i === last) markup = markup.replace(/\s+$/, "");
+				return markup;
+			}
+			const index = compiled.parts.indexOf(segment);
+			if (segment.type === "attribute") {
+				return ` vx-${index}${attributeHTML(segment, template.values)}`;
+			}
+			const content = childHTML(template.values[segment.valueIndex]);
+			return `<!--vx:${index}-->${content}<!--/vx:${index}-->`;
+		})
+		.join("");
+}
+
+/**
+ * finds the markers of one template instance, the content of child holes
+ * belongs to nested templates and is skipped
+ */
+function collectMarkers(nodes: Node[], markers: Markers): void {
+	for (let i = 0; i < nodes.length; i++) {
+		const node = nodes[i];
+		if (node instanceof Comment) {
+			const match = /^vx:(\d+)$/.exec(node.data);
+			if (!match) continue;
+			const closeIndex = nodes.findIndex(
+				(candidate, j) =>
+					j > i && candidate instanceof Comment && candidate.data === `/vx:${match[1]}`
+			);
+			if (closeIndex === -1) continue;
+			markers.children[Number(match[1])] = {
+				open: node,
+				close: nodes[closeIndex] as Comment,
+				nodes: nodes.slice(i + 1, closeIndex),
+			};
+			i = closeIndex;
+			continue;
+		}
+		if (!(node instanceof Element)) continue;
+		Array.from(node.attributes).forEach((attribute) => {
+			const match = /^vx-(\d+)$/.exec(attribute.name);
+			if (match) markers.elements[Number(match[1])] = node;
+		});
+		collectMarkers(Array.from(node.childNodes), markers);
+	}
+}
+
+function describe(el: Element): string {
+	return `<${el.tagName.toLowerCase()}${el.id ? `#${el.id}` : ""}>`;
+}
+
+/**
+ * compares the server rendered value of an attribute with the client's
+ */
+function checkAttribute(
+	el: Element,
+	part: AttributePart,
+	values: readonly unknown[],
+	report: MismatchReporter
+): void {
+	if (!report || part.kind === "event" || part.kind === "property") return;
+	if (part.kind === "boolean") {
+		const expected = !!read(values[part.valueIndices[0]]);
+		if (el.hasAttribute(part.name) !== expected) {
+			report(`vexd-js: hydration mismatch, ${part.name} on ${describe(el)} should be ${expected ? "present" : "absent"}`);
+		}
+		return;
+	}
+	if (part.kind === "text") {
+		const expected = attributeValue(part, values) ?? "";
+		if (el.textContent !== expected) {
+			report(
+				`vexd-js: hydration mismatch, the content of ${describe(el)} is ${JSON.stringify(el.textContent)} but the template renders ${JSON.stringify(expected)}`
+			);
+		}
+		return;
+	}
+	const expected = attributeValue(part, values);
+	const actual = el.getAttribute(part.name);
+	if (actual !== expected) {
+		report(
+			`vexd-js: hydration mismatch, ${part.name} on ${describe(el)} is ${JSON.stringify(actual)} but the template renders ${JSON.stringify(expected)}`
+		);
+	}
+}
+
+/**
+ * attaches the bindings of a template to the nodes of an existing
+ * instance, returns false when the markup does not have the template's
+ * markers
+ */
+function hydrateNodes(
+	nodes: Node[],
+	template: VexdTemplateResult,
+	disposers: VoidFunction[],
+	report: MismatchReporter
+): boolean {
+	const { compiled } = getCompiledTemplate(template.strings);
+	const { values } = template;
+	const markers: Markers = { elements: [], children: [] };
+	collectMarkers(nodes, markers);
+	const complete = compiled.parts.every((part, index) =>
+		part.type === "attribute" ? !!markers.elements[index] : !!markers.children[index]
+	);
+	if (!complete) return false;
+
+	compiled.parts.forEach((part, index) => {
+		if (part.type === "attribute") {
+			const el = markers.elements[index];
+			el.removeAttribute(`vx-${index}`);
+			checkAttribute(el, part, values, report);
+			bindAttributePart(el, part, values, disposers);
+			return;
+		}
+
+		const { open, close, nodes: rendered } = markers.children[index];
+		open.parentNode?.removeChild(open);
+		const value = values[part.valueIndex];
+		const current = read(value);
+		let renderer: ChildRenderer;
+		if (current instanceof VexdTemplateResult) {
+			const nested: VoidFunction[] = [];
+			if (hydrateNodes(rendered, current, nested, report)) {
+				renderer = createChildRenderer(close, rendered, nested);
+			} else {
+				report?.(`vexd-js: hydration mismatch, nested template markup is missing its markers`);
+				renderer = createChildRenderer(close, rendered);
+				renderer.render(current);
+			}
+		} else if (Array.isArray(current)) {
+			const nested: VoidFunction[] = [];
+			const content = hydrateItems(rendered, current, nested, report);
+			if (content) {
+				renderer = createChildRenderer(close, content, nested);
+			} else {
+				nested.forEach((dispose) => dispose());
+				report?.(`vexd-js: hydration mismatch, the markup of a list does not match its items`);
+				renderer = createChildRenderer(close, rendered);
+				renderer.render(current);
+			}
+		} else if (current instanceof UnsafeHTML) {
+			renderer = createChildRenderer(close, rendered);
+		} else if (current === null || current === undefined || current === false) {
+			renderer = createChildRenderer(close, rendered);
+			if (rendered.length > 0) {
+				report?.(`vexd-js: hydration mismatch, expected no content but found ${JSON.stringify(textOf(rendered))}`);
+				renderer.render(current);
+			}
+		} else if (typeof current === "string" || typeof current === "number") {
+			renderer = createChildRenderer(close, rendered);
+			const text = textOf(rendered);
+			if (text !== String(current)) {
+				report?.(`vexd-js: hydration mismatch, expected ${JSON.stringify(String(current))} but found ${JSON.stringify(text)}`);
+			}
+			if (text !== String(current) || rendered.length !== 1 || !(rendered[0] instanceof Text)) {
+				renderer.render(current);
+			}
+		} else {
+			// nodes and elements are rendered again on the client
+			renderer = createChildRenderer(close, rendered);
+			renderer.render(current);
+		}
+		disposers.push(renderer.dispose);
+		if (value instanceof VexdState) disposers.push(value.sideEffect(renderer.render));
+	});
+	return true;
+}
+
+/**
+ * splits the nodes of a list hole into the runs rendered for each item,
+ * returns null when the item markers are missing or unbalanced
+ */
+function splitItems(nodes: Node[]): { runs: Node[][]; markers: Comment[] } | null {
+	const runs: Node[][] = [];
+	const markers: Comment[] = [];
+	let depth = 0;
+	for (const node of nodes) {
+		const marker = node instanceof Comment ? node.data : null;
+		if (marker === "vx-item" && depth++ === 0) {
+			runs.push([]);
+			markers.push(node as Comment);
+		} else if (marker === "/vx-item" && --depth === 0) {
+			markers.push(node as Comment);
+		} else if (depth > 0) {
+			runs[runs.length - 1].push(node);
+		} else {
+			return null;
+		}
+		if (depth < 0) return null;
+	}
+	return depth === 0 ? { runs, markers } : null;
+}
+
+/**
+ * attaches the items of a list to the runs of nodes rendered for them,
+ * returns the nodes without their item markers or null when they do not
+ * match
+ */
+function hydrateItems(
+	nodes: Node[],
+	items: unknown[],
+	disposers: VoidFunction[],
+	report: MismatchReporter
+): Node[] | null {
+	const split = splitItems(nodes);
+	if (!split || split.runs.length !== items.length) return null;
+	const matches = items.every((item, i) => {
+		const run = split.runs[i];
+		const value = read(item);
+		if (value instanceof VexdTemplateResult) return hydrateNodes(run, value, disposers, report);
+		if (Array.isArray(value)) return hydrateItems(run, value, disposers, report) !== null;
+		if (value === null || value === undefined || value === false) return run.length === 0;
+		if (typeof value === "string" || typeof value === "number") {
+			return textOf(run) === String(value) && run.every((node) => node instanceof Text);
+		}
+		// nodes and elements cannot be matched to markup
+		return false;
+	});
+	if (!matches) return null;
+	split.markers.forEach((marker) => marker.parentNode?.removeChild(marker));
+	return nodes.filter((node) => split.markers.indexOf(node as Comment) === -1);
+}
+
+function textOf(nodes: Node[]): string {
+	return nodes.map((node) => node.textContent ?? "").join("");
+}
+
+/**
+ * attaches the event bindings and state subscriptions of a template to
+ * markup produced by `renderToString`, falling back to rendering the
+ * template on the client when the markup does not match it.
+ * @param root - Element containing the server rendered markup.
+ * @param template - The template the markup was rendered from.
+ * @param options - Mismatch reporting.
+ * @returns The disposers of the bindings.
+ */
+export function hydrateTemplate(
+	root: Element,
+	template: VexdTemplateResult,
+	options: VexdHydrateOptions = {}
+): VoidFunction[] {
+	const report: MismatchReporter =
+		options.onMismatch ?? (isDevelopment() ? (message) => console.warn(message) : null);
+	const disposers: VoidFunction[] = [];
+	if (hydrateNodes(Array.from(root.childNodes), template, disposers, report)) {
+		return disposers;
+	}
+
+	disposers.splice(0).forEach((dispose) => dispose());
+	report?.(`vexd-js: hydration mismatch, ${describe(root)} does not contain the template's markup, rendering it on the client`);
+	const rendered = renderTemplate(template.strings, template.values);
+	while (root.firstChild) root.removeChild(root.firstChild);
+	root.appendChild(rendered.fragment);
+	return rendered.disposers;
+}
@@ -1,16 +1,103 @@
 type CallbackOrValue<T> = T | ((oldState: T) => T);
+
+/**
+ * "sync" delivers notifications as soon as a state changes (outside of
+ * `batch`), "microtask" defers every change to the next microtask
+ */
+export type BatchMode = "sync" | "microtask";
+
+/**
+ * the computed state currently evaluating, reads of any state are
+ * recorded as its dependencies
+ */
+let activeComputed: VexdComputed<any> | null = null;
+
+let batchMode: BatchMode = "sync";
+let batchDepth = 0;
+let flushScheduled = false;
+/**
+ * states changed while batching, mapped to their value before the batch
+ */
+const pendingStates = new Map<VexdState<any>, unknown>();
+const pendingComputeds: VexdComputed<any>[] = [];
+
+function isBatching(): boolean {
+	return batchDepth > 0 || batchMode === "microtask";
+}
+
+function scheduleFlush(): void {
+	if (batchDepth > 0 || flushScheduled) return;
+	flushScheduled = true;
+	Promise.resolve().then(flushBatch);
+}
+
+/**
+ * Deliver every pending notification now, each changed state notifies
+ * its subscribers once with its final value
+ */
+export function flushBatch(): void {
+	flushScheduled = false;
+	while (pendingStates.size > 0 || pendingComputeds.length > 0) {
+		const states = Array.from(pendingStates);
+		const computeds = pendingComputeds.splice(0);
+		pendingStates.clear();
+		states.forEach(([pending, previousValue]) => pending.deliver(previousValue));
+		computeds.forEach((computed) => computed.refresh());
+	}
+}
+
+/**
+ * Run a function with notifications deferred until it returns, batches
+ * can be nested and only the outermost one flushes
+ * @param fn Function performing the updates
+ * @returns The function's return value
+ */
+export function batch<R>(fn: () => R): R {
+	batchDepth++;
+	try {
+		return fn();
+	} finally {
+		batchDepth--;
+		if (batchDepth === 0) flushBatch();
+	}
+}
+
+/**
+ * Set how notifications outside of `batch` are scheduled, switching back
+ * to "sync" flushes anything still pending
+ * @param mode The batching mode
+ */
+export function setBatchMode(mode: BatchMode): void {
+	batchMode = mode;
+	if (mode === "sync" && batchDepth === 0) flushBatch();
+}
+
 /**
  * Core reactive state management class
  */
 export class VexdState<T> {
-	private value: T;
-	private subscribers: ((newState: T) => void)[] = [];
+	protected value: T;
+	protected subscribers: ((newState: T) => void)[] = [];
+	protected interceptors: ((nextState: T, previousState: T) => void)[] = [];
+	protected dependents = new Set<VexdComputed<any>>();
+	protected version: number = 0;
 
 	constructor(initialValue: T) {
 		this.value = initialValue;
 	}
 
 	public get state(): T {
+		const value = this.peek();
+		if (activeComputed) activeComputed.track(this);
+		return value;
+	}
+
+	/**
+	 * Read the current value without registering it as a dependency
+	 * of the computed state being evaluated
+	 * @returns The current value
+	 */
+	public peek(): T {
 		return this.value;
 	}
 
@@ -20,16 +107,32 @@ export class VexdState<T> {
 	 */
 	public setState(newState: CallbackOrValue<T>): void {
 		const previousValue = this.value;
+		const nextValue =
+			typeof newState === "function"
+				? (newState as (oldState: T) => T)(previousValue)
+				: newState;
 
-		if (typeof newState === "function") {
-			this.value = (newState as (oldState: T) => T)(previousValue);
-		} else {
-			this.value = newState;
-		}
+		if (nextValue === previousValue) return;
+		this.interceptors
+			.slice()
+			.forEach((interceptor) => interceptor(nextValue, previousValue));
+		this.value = nextValue;
+		this.version++;
+		this.propagate(previousValue);
+	}
 
-		if (this.value !== previousValue) {
-			this.subscribers.forEach((subscriber) => subscriber(this.value));
-		}
+	/**
+	 * Register a function that runs when the state is about to change, before
+	 * the new value is stored and before any subscriber runs
+	 * @param fn Function receiving the next and the previous value
+	 * @returns Unregister function
+	 */
+	public beforeChange(fn: (nextState: T, previousState: T) => void): () => void {
+		this.interceptors.push(fn);
+		return () => {
+			const index = this.interceptors.indexOf(fn);
+			if (index !== -1) this.interceptors.splice(index, 1);
+		};
 	}
 
 	/**
@@ -43,12 +146,15 @@ export class VexdState<T> {
 		triggerNow: boolean = false
 	): () => void {
 		if (triggerNow) {
-			fn(this.value);
+			fn(this.peek());
 		}
 		this.subscribers.push(fn);
+		this.observedChanged();
 		return () => {
 			const index = this.subscribers.indexOf(fn);
-			if (index !== -1) this.subscribers.splice(index, 1);
+			if (index === -1) return;
+			this.subscribers.splice(index, 1);
+			this.observedChanged();
 		};
 	}
 
@@ -56,28 +162,357 @@ export class VexdState<T> {
 	 * Remove all subscribers
 	 */
 	public clear(): void {
+		this.clearSubscribers();
+	}
+
+	/**
+	 * Remove all subscribers, also available on lists where `clear` removes
+	 * the items instead
+	 */
+	public clearSubscribers(): void {
 		this.subscribers = [];
+		this.observedChanged();
 	}
+
+	/**
+	 * brings the value up to date and returns its version
+	 * @internal
+	 */
+	public sync(): number {
+		return this.version;
+	}
+
+	/**
+	 * @internal
+	 */
+	public link(dependent: VexdComputed<any>): void {
+		this.dependents.add(dependent);
+		this.observedChanged();
+	}
+
+	/**
+	 * @internal
+	 */
+	public unlink(dependent: VexdComputed<any>): void {
+		this.dependents.delete(dependent);
+		this.observedChanged();
+	}
+
+	/**
+	 * notifies subscribers if the value differs from the one it had
+	 * before the batch
+	 * @internal
+	 */
+	public deliver(previousValue: T): void {
+		if (this.value !== previousValue) this.notify();
+	}
+
+	/**
+	 * marks every dependent computed state as stale before any subscriber
+	 * runs, then refreshes the observed ones so subscribers never see a
+	 * combination of old and new values
+	 */
+	protected propagate(previousValue: T): void {
+		if (isBatching()) {
+			if (!pendingStates.has(this)) pendingStates.set(this, previousValue);
+			this.dependents.forEach((dependent) =>
+				dependent.markStale(pendingComputeds)
+			);
+			scheduleFlush();
+			return;
+		}
+		const stale: VexdComputed<any>[] = [];
+		this.dependents.forEach((dependent) => dependent.markStale(stale));
+		this.notify();
+		stale.forEach((computed) => computed.refresh());
+	}
+
+	protected notify(): void {
+		this.subscribers.slice().forEach((subscriber) => subscriber(this.value));
+	}
+
+	/**
+	 * called whenever a subscriber or dependent is added or removed
+	 */
+	protected observedChanged(): void {}
+}
+
+/**
+ * read-only state derived from other states, dependencies are tracked
+ * automatically and the value is only recomputed when one of them changes
+ */
+export class VexdComputed<T> extends VexdState<T> {
+	private getter: () => T;
+	private sources = new Map<VexdState<any>, number>();
+	private evaluated: boolean = false;
+	private computing: boolean = false;
+	private linked: boolean = false;
+	private stale: boolean = false;
+	private deliveredVersion: number = 0;
+
+	constructor(getter: () => T) {
+		super(undefined as T);
+		this.getter = getter;
+	}
+
+	public peek(): T {
+		this.sync();
+		return this.value;
+	}
+
+	/**
+	 * @throws Computed states are read-only
+	 */
+	public setState(newState: CallbackOrValue<T>): void {
+		throw new Error("vexd-js: cannot set the state of a computed value");
+	}
+
+	/**
+	 * @internal
+	 */
+	public sync(): number {
+		if (this.linked && !this.stale) return this.version;
+		if (!this.evaluated || this.sourcesChanged()) this.recompute();
+		this.stale = false;
+		return this.version;
+	}
+
+	/**
+	 * @internal
+	 */
+	public track(source: VexdState<any>): void {
+		this.sources.set(source, source.sync());
+	}
+
+	/**
+	 * @internal
+	 */
+	public markStale(queue: VexdComputed<any>[]): void {
+		if (this.stale) return;
+		this.stale = true;
+		if (this.subscribers.length > 0) queue.push(this);
+		this.dependents.forEach((dependent) => dependent.markStale(queue));
+	}
+
+	/**
+	 * @internal
+	 */
+	public refresh(): void {
+		this.sync();
+		if (this.version === this.deliveredVersion) return;
+		this.deliveredVersion = this.version;
+		this.notify();
+	}
+
+	protected observedChanged(): void {
+		const observed = this.subscribers.length > 0 || this.dependents.size > 0;
+		if (observed && !this.linked) {
+			this.sync();
+			this.linked = true;
+			this.deliveredVersion = this.version;
+			this.sources.forEach((_, source) => source.link(this));
+		} else if (!observed && this.linked) {
+			this.linked = false;
+			this.sources.forEach((_, source) => source.unlink(this));
+		}
+	}
+
+	private sourcesChanged(): boolean {
+		let changed = false;
+		this.sources.forEach((version, source) => {
+			if (!changed && source.sync() !== version) changed = true;
+		});
+		return changed;
+	}
+
+	private recompute(): void {
+		if (this.computing) {
+			throw new Error("vexd-js: circular dependency in computed value");
+		}
+		const previousSources = this.sources;
+		const previousComputed = activeComputed;
+		this.sources = new Map();
+		this.computing = true;
+		activeComputed = this;
+
+		let nextValue: T;
+		try {
+			nextValue = this.getter();
+		} catch (error) {
+			this.sources = previousSources;
+			throw error;
+		} finally {
+			activeComputed = previousComputed;
+			this.computing = false;
+		}
+
+		if (this.linked) {
+			this.sources.forEach((_, source) => {
+				if (!previousSources.has(source)) source.link(this);
+			});
+			previousSources.forEach((_, source) => {
+				if (!this.sources.has(source)) source.unlink(this);
+			});
+		}
+
+		if (!this.evaluated || nextValue !== this.value) {
+			this.value = nextValue;
+			this.version++;
+		}
+		this.evaluated = true;
+	}
+}
+
+/**
+ * a structured description of a list mutation, applying the records of a
+ * change in order to the previous array produces the new one
+ */
+export type VexdListChange<T> =
+	| { type: "splice"; index: number; removed: T[]; added: T[] }
+	| { type: "move"; from: number; to: number }
+	| { type: "update"; index: number; previous: T; value: T };
+
+/**
+ * Apply change records to an array
+ * @param items The array the changes were recorded against
+ * @param changes Change records in the order they were emitted
+ * @returns A new array with the changes applied
+ */
+export function applyListChanges<T>(items: T[], changes: VexdListChange<T>[]): T[] {
+	const result = items.slice();
+	changes.forEach((change) => {
+		if (change.type === "splice") {
+			result.splice(change.index, change.removed.length, ...change.added);
+		} else if (change.type === "move") {
+			result.splice(change.to, 0, ...result.splice(change.from, 1));
+		} else {
+			result[change.index] = change.value;
+		}
+	});
+	return result;
 }
 
 /**
  * extended state management class for arrays with helper methods
  */
 export class VexdStateList<T> extends VexdState<T[]> {
+	private changeListeners: ((changes: VexdListChange<T>[]) => void)[] = [];
+	private recording: boolean = false;
+
+	/**
+	 * Replacing the array directly is recorded as a single splice of the
+	 * whole list
+	 * @param newState New value or function to transform the current state
+	 */
+	public setState(newState: CallbackOrValue<T[]>): void {
+		const previousValue = this.value;
+		super.setState(newState);
+		if (!this.recording && this.value !== previousValue) {
+			this.emitChanges([
+				{ type: "splice", index: 0, removed: previousValue, added: this.value },
+			]);
+		}
+	}
+
+	/**
+	 * Register a function that receives the change records of every mutation,
+	 * records are delivered right away even while notifications are batched
+	 * @param fn Function receiving the records of one mutation
+	 * @returns Unsubscribe function
+	 */
+	public observeChanges(fn: (changes: VexdListChange<T>[]) => void): () => void {
+		this.changeListeners.push(fn);
+		return () => {
+			const index = this.changeListeners.indexOf(fn);
+			if (index !== -1) this.changeListeners.splice(index, 1);
+		};
+	}
+
 	/**
 	 * add an item to the list
 	 * @param item Item to add
 	 */
 	public add(item: T): void {
-		this.setState((oldState) => [...oldState, item]);
+		this.insertAt(this.value.length, item);
+	}
+
+	/**
+	 * Insert items at an index
+	 * @param index Position to insert at, clamped to the list bounds
+	 * @param items Items to insert
+	 */
+	public insertAt(index: number, ...items: T[]): void {
+		if (items.length === 0) return;
+		const at = Math.max(0, Math.min(index, this.value.length));
+		const next = this.value.slice();
+		next.splice(at, 0, ...items);
+		this.commit(next, [{ type: "splice", index: at, removed: [], added: items }]);
+	}
+
+	/**
+	 * Remove items starting at an index
+	 * @param index Position of the first item to remove, negative indices count from the end
+	 * @param count Number of items to remove (defaults to 1)
+	 */
+	public removeAt(index: number, count: number = 1): void {
+		const length = this.value.length;
+		const at = index < 0 ? Math.max(0, length + index) : Math.min(index, length);
+		const next = this.value.slice();
+		const removed = next.splice(at, count);
+		if (removed.length === 0) return;
+		this.commit(next, [{ type: "splice", index: at, removed, added: [] }]);
 	}
 
 	/**
 	 * Remove items that match the predicate
-	 * @param predicate Function that returns true for items to keep
+	 * @param predicate Function that returns true for items to remove
 	 */
 	public remove(predicate: (item: T) => boolean): void {
-		this.setState((oldState) => oldState.filter((item) => !predicate(item)));
+		const next: T[] = [];
+		const changes: VexdListChange<T>[] = [];
+		this.value.forEach((item) => {
+			if (!predicate(item)) {
+				next.push(item);
+				return;
+			}
+			const last = changes[changes.length - 1];
+			if (last && last.type === "splice" && last.index === next.length) {
+				last.removed.push(item);
+			} else {
+				changes.push({ type: "splice", index: next.length, removed: [item], added: [] });
+			}
+		});
+		this.commit(next, changes);
+	}
+
+	/**
+	 * Move an item to another index
+	 * @param from Current index of the item
+	 * @param to Index the item ends up at
+	 */
+	public move(from: number, to: number): void {
+		const length = this.value.length;
+		if (from === to || from < 0 || from >= length || to < 0 || to >= length) return;
+		const next = this.value.slice();
+		next.splice(to, 0, ...next.splice(from, 1));
+		this.commit(next, [{ type: "move", from, to }]);
+	}
+
+	/**
+	 * Sort the list, recorded as the moves that reorder it
+	 * @param compare Comparison function as used by Array.prototype.sort
+	 */
+	public sort(compare?: (a: T, b: T) => number): void {
+		const next = this.value.slice().sort(compare);
+		const working = this.value.slice();
+		const changes: VexdListChange<T>[] = [];
+		next.forEach((item, to) => {
+			if (working[to] === item) return;
+			const from = working.indexOf(item, to);
+			working.splice(to, 0, ...working.splice(from, 1));
+			changes.push({ type: "move", from, to });
+		});
+		this.commit(next, changes);
 	}
 
 	/**
@@ -85,7 +520,62 @@ export class VexdStateList<T> extends VexdState<T[]> {
 	 * @param callback Mapping function
 	 */
 	public map(callback: (item: T) => T): void {
-		this.setState((oldState) => oldState.map(callback));
+		this.updateWhere(() => true, callback);
+	}
+
+	/**
+	 * Transform the items that match the predicate
+	 * @param predicate Function that returns true for items to update
+	 * @param updater Function returning the updated item
+	 */
+	public updateWhere(predicate: (item: T) => boolean, updater: (item: T) => T): void {
+		const changes: VexdListChange<T>[] = [];
+		const next = this.value.map((item, index) => {
+			if (!predicate(item)) return item;
+			const value = updater(item);
+			if (value !== item) changes.push({ type: "update", index, previous: item, value });
+			return value;
+		});
+		this.commit(next, changes);
+	}
+
+	/**
+	 * Replace the item with the same key, or add it when there is none
+	 * @param item Item to insert or update
+	 * @param key Property or function returning the item's key
+	 */
+	public upsert(item: T, key: keyof T | ((item: T) => unknown)): void {
+		const keyOf = typeof key === "function" ? key : (value: T) => value[key];
+		const itemKey = keyOf(item);
+		const index = this.value.findIndex((existing) => keyOf(existing) === itemKey);
+		if (index === -1) {
+			this.add(item);
+			return;
+		}
+		const previous = this.value[index];
+		if (previous === item) return;
+		const next = this.value.slice();
+		next[index] = item;
+		this.commit(next, [{ type: "update", index, previous, value: item }]);
+	}
+
+	/**
+	 * Remove every item, unlike `VexdState.clear` subscribers are kept, use
+	 * `clearSubscribers` to remove them. Breaking change: earlier releases
+	 * removed the subscribers here, see the changelog
+	 */
+	public clear(): void {
+		this.removeAt(0, this.value.length);
+	}
+
+	/**
+	 * Replace every item
+	 * @param items The new items
+	 */
+	public replace(items: T[]): void {
+		this.commit(items, [
+			{ type: "splice", index: 0, removed: this.value, added: items },
+		]);
 	}
 
 	/**
@@ -105,4 +595,19 @@ export class VexdStateList<T> extends VexdState<T[]> {
 	public filter(predicate: (item: T) => boolean): T[] {
 		return this.state.filter(predicate);
 	}
+
+	private commit(next: T[], changes: VexdListChange<T>[]): void {
+		if (changes.length === 0) return;
+		this.recording = true;
+		try {
+			this.setState(() => next);
+		} finally {
+			this.recording = false;
+		}
+		this.emitChanges(changes);
+	}
+
+	private emitChanges(changes: VexdListChange<T>[]): void {
+		this.changeListeners.slice().forEach((listener) => listener(changes));
+	}
 }
@@ -0,0 +1,534 @@
+/**
+ * @file vexd-template.ts
+ * @description Parsing and instantiation of tagged templates with escaped holes and live bindings.
+ */
+
+import { VexdElement } from "./vexd-element";
+import { VexdState } from "./vexd-state";
+
+/**
+ * markup that is inserted into a template without escaping
+ */
+export class UnsafeHTML {
+	constructor(public readonly html: string) {}
+}
+
+/**
+ * marks a string as trusted markup so templates insert it as HTML instead
+ * of escaping it, never pass user supplied data to this
+ * @param html Trusted markup
+ * @returns An UnsafeHTML instance
+ */
+export function unsafeHTML(html: string): UnsafeHTML {
+	return new UnsafeHTML(html);
+}
+
+/**
+ * a template that has not been rendered yet, it can be rendered to a
+ * string, hydrated or nested inside another template
+ */
+export class VexdTemplateResult {
+	constructor(
+		public readonly strings: TemplateStringsArray,
+		public readonly values: readonly unknown[]
+	) {}
+}
+
+/**
+ * tags a template without rendering it, unlike `Vexd.template` no DOM is
+ * needed until it is rendered
+ * @returns A VexdTemplateResult
+ */
+export function html(
+	strings: TemplateStringsArray,
+	...values: unknown[]
+): VexdTemplateResult {
+	return new VexdTemplateResult(strings, values);
+}
+
+/** "text" binds the content of a <textarea> or <title> */
+type AttributeKind = "attribute" | "boolean" | "property" | "event" | "text";
+
+export interface ChildPart {
+	type: "child";
+	valueIndex: number;
+}
+
+export interface AttributePart {
+	type: "attribute";
+	kind: AttributeKind;
+	name: string;
+	/** static text around the holes, always one longer than valueIndices */
+	strings: string[];
+	valueIndices: number[];
+}
+
+export type TemplatePart = ChildPart | AttributePart;
+
+export interface CompiledTemplate {
+	/** static markup interleaved with the parts in document order */
+	segments: (string | TemplatePart)[];
+	parts: TemplatePart[];
+}
+
+type ScanMode =
+	| "text"
+	| "tagOpen"
+	| "closeTag"
+	| "inTag"
+	| "attrName"
+	| "afterAttrName"
+	| "beforeValue"
+	| "valueDouble"
+	| "valueSingle"
+	| "valueUnquoted"
+	| "comment"
+	| "rawText"
+	| "escapableText";
+
+const RAW_TEXT_TAGS = ["script", "style"];
+
+/** elements whose content is text, holes in them are escaped as a whole */
+const ESCAPABLE_TEXT_TAGS = ["textarea", "title"];
+
+const ATTRIBUTE_PREFIXES: Record<string, AttributeKind> = {
+	"?": "boolean",
+	".": "property",
+	"@": "event",
+};
+
+const isWhitespace = (char: string) => /\s/.test(char);
+
+/**
+ * scans the static strings of a template once, working out whether each
+ * hole sits in text content or in an attribute value
+ * @param strings The template's static strings
+ * @returns The compiled template
+ * @throws Will throw an error for holes in unsupported positions
+ */
+export function compileTemplate(
+	strings: readonly string[]
+): CompiledTemplate {
+	const segments: (string | TemplatePart)[] = [];
+	const parts: TemplatePart[] = [];
+	let mode: ScanMode = "text";
+	let buffer = "";
+	let tagName = "";
+	let attrName = "";
+	let attrStart = 0;
+	let contentStart = 0;
+	let capture: AttributePart | null = null;
+
+	const endTag = () => {
+		const name = tagName.toLowerCase();
+		if (RAW_TEXT_TAGS.includes(name)) mode = "rawText";
+		else if (ESCAPABLE_TEXT_TAGS.includes(name)) mode = "escapableText";
+		else mode = "text";
+		contentStart = buffer.length;
+	};
+
+	const closesContent = (string: string, i: number) =>
+		string[i] === "<" &&
+		string.slice(i + 1, i + 2 + tagName.length).toLowerCase() ===
+			`/${tagName.toLowerCase()}`;
+
+	const endCapture = () => {
+		if (capture && capture.kind !== "attribute" && capture.kind !== "text") {
+			const [before, after] = [capture.strings[0], capture.strings[1]];
+			if (capture.strings.length !== 2 || before || after) {
+				throw new Error(
+					`vexd-js: "${attrName}" must be bound to exactly one value`
+				);
+			}
+		}
+		capture = null;
+	};
+
+	strings.forEach((string, stringIndex) => {
+		for (let i = 0; i < string.length; i++) {
+			const char = string[i];
+
+			if (capture && capture.kind === "text") {
+				if (!closesContent(string, i)) {
+					capture.strings[capture.strings.length - 1] += char;
+					continue;
+				}
+				endCapture();
+			} else if (capture) {
+				const closesQuote =
+					(mode === "valueDouble" && char === '"') ||
+					(mode === "valueSingle" && char === "'");
+				const closesUnquoted =
+					mode === "valueUnquoted" && (isWhitespace(char) || char === ">");
+				if (closesQuote) {
+					endCapture();
+					mode = "inTag";
+					continue;
+				}
+				if (!closesUnquoted) {
+					capture.strings[capture.strings.length - 1] += char;
+					continue;
+				}
+				endCapture();
+			}
+
+			buffer += char;
+			switch (mode) {
+				case "text":
+					if (char !== "<") break;
+					if (string.startsWith("!--", i + 1)) {
+						buffer += "!--";
+						i += 3;
+						mode = "comment";
+					} else if (string[i + 1] === "/") {
+						mode = "closeTag";
+					} else if (/[a-zA-Z]/.test(string[i + 1] ?? "")) {
+						tagName = "";
+						mode = "tagOpen";
+					}
+					break;
+				case "tagOpen":
+					if (isWhitespace(char) || char === "/") mode = "inTag";
+					else if (char === ">") endTag();
+					else tagName += char;
+					break;
+				case "closeTag":
+					if (char === ">") mode = "text";
+					break;
+				case "inTag":
+				case "afterAttrName":
+					if (char === ">") {
+						endTag();
+					} else if (char === "=" && mode === "afterAttrName") {
+						mode = "beforeValue";
+					} else if (!isWhitespace(char) && char !== "/") {
+						attrStart = buffer.length - 1;
+						attrName = char;
+						mode = "attrName";
+					}
+					break;
+				case "attrName":
+					if (isWhitespace(char)) mode = "afterAttrName";
+					else if (char === "=") mode = "beforeValue";
+					else if (char === ">") endTag();
+					else if (char === "/") mode = "inTag";
+					else attrName += char;
+					break;
+				case "beforeValue":
+					if (char === '"') mode = "valueDouble";
+					else if (char === "'") mode = "valueSingle";
+					else if (char === ">") endTag();
+					else if (!isWhitespace(char)) mode = "valueUnquoted";
+					break;
+				case "valueDouble":
+					if (char === '"') mode = "inTag";
+					break;
+				case "valueSingle":
+					if (char === "'") mode = "inTag";
+					break;
+				case "valueUnquoted":
+					if (isWhitespace(char)) mode = "inTag";
+					else if (char === ">") endTag();
+					break;
+				case "comment":
+					if (buffer.endsWith("-->")) mode = "text";
+					break;
+				case "rawText":
+				case "escapableText":
+					if (closesContent(string, i)) mode = "closeTag";
+					break;
+			}
+		}
+
+		if (stringIndex === strings.length - 1) return;
+
+		if (capture) {
+			capture.valueIndices.push(stringIndex);
+			capture.strings.push("");
+			return;
+		}
+
+		switch (mode) {
+			case "text": {
+				const part: ChildPart = { type: "child", valueIndex: stringIndex };
+				segments.push(buffer, part);
+				parts.push(part);
+				buffer = "";
+				break;
+			}
+			case "beforeValue":
+			case "valueDouble":
+			case "valueSingle":
+			case "valueUnquoted": {
+				const valueStart = buffer.indexOf("=", attrStart) + 1;
+				const leading = buffer
+					.slice(valueStart)
+					.replace(/^\s*["']?/, "");
+				if (mode === "beforeValue") mode = "valueUnquoted";
+				const prefix = attrName[0];
+				const kind = ATTRIBUTE_PREFIXES[prefix] ?? "attribute";
+				const part: AttributePart = {
+					type: "attribute",
+					kind,
+					name: kind === "attribute" ? attrName : attrName.slice(1),
+					strings: [leading, ""],
+					valueIndices: [stringIndex],
+				};
+				segments.push(buffer.slice(0, attrStart).replace(/\s+$/, ""), part);
+				parts.push(part);
+				buffer = "";
+				capture = part;
+				break;
+			}
+			case "comment":
+				break;
+			case "escapableText": {
+				// the whole content becomes one part placed on the element's tag
+				const part: AttributePart = {
+					type: "attribute",
+					kind: "text",
+					name: tagName.toLowerCase(),
+					strings: [buffer.slice(contentStart), ""],
+					valueIndices: [stringIndex],
+				};
+				segments.push(buffer.slice(0, contentStart - 1), part);
+				parts.push(part);
+				buffer = "";
+				capture = part;
+				break;
+			}
+			case "rawText":
+				throw new Error(
+					`vexd-js: bindings are not supported inside <${tagName}>`
+				);
+			default:
+				throw new Error(
+					"vexd-js: bindings are only supported in text content and attribute values"
+				);
+		}
+	});
+
+	if (capture) endCapture();
+	segments.push(buffer);
+	return { segments, parts };
+}
+
+interface CachedTemplate {
+	compiled: CompiledTemplate;
+	element?: HTMLTemplateElement;
+}
+
+const templateCache = new WeakMap<TemplateStringsArray, CachedTemplate>();
+
+/**
+ * returns the compiled form of a template, compiling it on first use
+ * @param strings The template's static strings
+ */
+export function getCompiledTemplate(
+	strings: TemplateStringsArray
+): CachedTemplate {
+	let cached = templateCache.get(strings);
+	if (!cached) {
+		cached = { compiled: compileTemplate(strings) };
+		templateCache.set(strings, cached);
+	}
+	return cached;
+}
+
+/**
+ * the markup used to build the DOM template, parts are replaced with
+ * comment and attribute markers
+ */
+function markerHTML(compiled: CompiledTemplate): string {
+	return compiled.segments
+		.map((segment) => {
+			if (typeof segment === "string") return segment;
+			const index = compiled.parts.indexOf(segment);
+			if (segment.type === "child") return `<!--vx:${index}-->`;
+			return segment.kind === "text" ? ` vx-${index}>` : ` vx-${index}`;
+		})
+		.join("");
+}
+
+/**
+ * converts a child value into the nodes it renders as, disposers of nested
+ * templates are added to the list
+ */
+function toNodes(value: unknown, disposers: VoidFunction[]): Node[] {
+	if (value === null || value === undefined || value === false) return [];
+	if (Array.isArray(value)) {
+		return value.reduce<Node[]>(
+			(nodes, item) => nodes.concat(toNodes(item, disposers)),
+			[]
+		);
+	}
+	if (value instanceof VexdElement) return [value.native()];
+	if (value instanceof DocumentFragment) return Array.from(value.childNodes);
+	if (value instanceof Node) return [value];
+	if (value instanceof VexdTemplateResult) {
+		const rendered = renderTemplate(value.strings, value.values);
+		rendered.disposers.forEach((dispose) => disposers.push(dispose));
+		return Array.from(rendered.fragment.childNodes);
+	}
+	if (value instanceof UnsafeHTML) {
+		const template = document.createElement("template");
+		template.innerHTML = value.html;
+		return Array.from(template.content.childNodes);
+	}
+	return [document.createTextNode(String(value))];
+}
+
+export interface ChildRenderer {
+	render: (value: unknown) => void;
+	/** disposes the bindings of nested templates */
+	dispose: VoidFunction;
+}
+
+/**
+ * renders a child hole before its marker, replacing what it rendered last
+ * @param marker Node the content is inserted before
+ * @param nodes Nodes already rendered for the hole, when hydrating
+ * @param nested Disposers of a nested template already rendered for the hole
+ */
+export function createChildRenderer(
+	marker: Node,
+	nodes: Node[] = [],
+	nested: VoidFunction[] = []
+): ChildRenderer {
+	const dispose = () => nested.splice(0).forEach((disposeNested) => disposeNested());
+	const render = (value: unknown) => {
+		const isText = typeof value === "string" || typeof value === "number";
+		if (isText && nested.length === 0 && nodes.length === 1 && nodes[0] instanceof Text) {
+			(nodes[0] as Text).data = String(value);
+			return;
+		}
+		dispose();
+		nodes.forEach((node) => node.parentNode?.removeChild(node));
+		nodes = toNodes(value, nested);
+		nodes.forEach((node) => marker.parentNode!.insertBefore(node, marker));
+	};
+	return { render, dispose };
+}
+
+export const read = (value: unknown) =>
+	value instanceof VexdState ? value.peek() : value;
+
+/**
+ * the value of an attribute part, `null` when the attribute should be removed
+ */
+export function attributeValue(
+	part: AttributePart,
+	values: readonly unknown[]
+): string | null {
+	const current = part.valueIndices.map((index) => read(values[index]));
+	const [first] = current;
+	const bare = current.length === 1 && !part.strings[0] && !part.strings[1];
+	if (bare && (first === null || first === undefined || first === false)) {
+		return null;
+	}
+	return part.strings.reduce((result, string, i) => {
+		const value = i < current.length ? current[i] : "";
+		const text = value instanceof UnsafeHTML ? value.html : String(value ?? "");
+		return result + string + text;
+	}, "");
+}
+
+export function bindAttributePart(
+	el: Element,
+	part: AttributePart,
+	values: readonly unknown[],
+	disposers: VoidFunction[]
+): void {
+	if (part.kind === "event") {
+		const handler = values[part.valueIndices[0]];
+		if (typeof handler !== "function") {
+			throw new Error(`vexd-js: @${part.name} must be bound to a function`);
+		}
+		el.addEventListener(part.name, handler as EventListener);
+		disposers.push(() =>
+			el.removeEventListener(part.name, handler as EventListener)
+		);
+		return;
+	}
+
+	const update = () => {
+		if (part.kind === "property") {
+			(el as any)[part.name] = read(values[part.valueIndices[0]]);
+		} else if (part.kind === "boolean") {
+			el.toggleAttribute(part.name, !!read(values[part.valueIndices[0]]));
+		} else if (part.kind === "text") {
+			const text = attributeValue(part, values) ?? "";
+			el.textContent = text;
+			if (el instanceof HTMLTextAreaElement) el.value = text;
+		} else {
+			const value = attributeValue(part, values);
+			if (value === null) el.removeAttribute(part.name);
+			else el.setAttribute(part.name, value);
+		}
+	};
+
+	update();
+	part.valueIndices.forEach((index) => {
+		const value = values[index];
+		if (value instanceof VexdState) disposers.push(value.sideEffect(update));
+	});
+}
+
+/**
+ * instantiates a template, every interpolated value is escaped unless it
+ * is wrapped with `unsafeHTML` and nested template results are rendered
+ * in place
+ * @param strings The template's static strings
+ * @param values The interpolated values
+ * @returns The rendered fragment and the disposers for its bindings
+ */
+export function renderTemplate(
+	strings: TemplateStringsArray,
+	values: readonly unknown[]
+): { fragment: DocumentFragment; disposers: VoidFunction[] } {
+	const cached = getCompiledTemplate(strings);
+	if (!cached.element) {
+		cached.element = document.createElement("template");
+		cached.element.innerHTML = markerHTML(cached.compiled).trim();
+	}
+
+	const fragment = document.importNode(cached.element.content, true);
+	const markers: Node[] = [];
+	const walker = document.createTreeWalker(
+		fragment,
+		NodeFilter.SHOW_ELEMENT | NodeFilter.SHOW_COMMENT
+	);
+	while (walker.nextNode()) {
+		const node = walker.currentNode;
+		if (node instanceof Comment) {
+			const match = /^vx:(\d+)$/.exec(node.data);
+			if (match) markers[Number(match[1])] = node;
+			continue;
+		}
+		Array.from((node as Element).attributes).forEach((attribute) => {
+			const match = /^vx-(\d+)$/.exec(attribute.name);
+			if (!match) return;
+			markers[Number(match[1])] = node;
+			(node as Element).removeAttribute(attribute.name);
+		});
+	}
+
+	const disposers: VoidFunction[] = [];
+	cached.compiled.parts.forEach((part, index) => {
+		const marker = markers[index];
+		if (part.type === "attribute") {
+			bindAttributePart(marker as Element, part, values, disposers);
+			return;
+		}
+		const { render, dispose } = createChildRenderer(marker);
+		disposers.push(dispose);
+		const value = values[part.valueIndex];
+		if (value instanceof VexdState) {
+			disposers.push(value.sideEffect(render, true));
+		} else {
+			render(value);
+		}
+	});
+
+	return { fragment, disposers };
+}
@@ -3,7 +3,28 @@
  * @description Document-level utilities for working with VexdElement.
  */
 
+import { announce, VexdAnnounceOptions } from "./vexd-a11y";
+import { VexdTimeline } from "./vexd-animation";
+import { VexdCollection } from "./vexd-collection";
+import {
+	defineComponent,
+	VexdComponentElement,
+	VexdComponentOptions,
+	VexdPropsDefinition,
+} from "./vexd-component";
 import { VexdElement } from "./vexd-element";
+import { VexdForm, VexdFormOptions } from "./vexd-form";
+import { hotkey, setHotkeyScope, VexdHotkeyOptions } from "./vexd-hotkeys";
+import { VexdRouter, VexdRouterOptions } from "./vexd-router";
+import { hydrateTemplate, VexdHydrateOptions } from "./vexd-ssr";
+import { renderTemplate, VexdTemplateResult } from "./vexd-template";
+
+export interface VexdWaitForOptions {
+	/** milliseconds to wait before rejecting, waits indefinitely when omitted */
+	timeout?: number;
+	/** element to search and watch (defaults to the document) */
+	root?: ParentNode & Node | VexdElement;
+}
 
 export class Vexd {
 	/**
@@ -18,6 +39,56 @@ export class Vexd {
 		return new VexdElement(el as HTMLElement);
 	}
 
+	/**
+	 * like `select`, but returns null instead of throwing when nothing matches.
+	 * @param {string} selector - CSS selector.
+	 * @returns {VexdElement | null} A VexdElement instance or null.
+	 */
+	static maybe(selector: string): VexdElement | null {
+		const el = document.querySelector(selector);
+		return el ? new VexdElement(el as HTMLElement) : null;
+	}
+
+	/**
+	 * waits for an element matching the selector to appear, resolving
+	 * immediately if one already exists.
+	 * @param {string} selector - CSS selector.
+	 * @param {VexdWaitForOptions} [options] - Timeout in milliseconds and the root to watch (defaults to the document).
+	 * @returns {Promise<VexdElement>} Resolves with the matching element.
+	 * @throws Rejects if the timeout passes before the element appears.
+	 */
+	static waitFor(
+		selector: string,
+		options: VexdWaitForOptions = {}
+	): Promise<VexdElement> {
+		const { timeout, root = document } = options;
+		const target = root instanceof VexdElement ? root.native() : root;
+		const find = () => target.querySelector(selector) as HTMLElement | null;
+
+		return new Promise((resolve, reject) => {
+			const existing = find();
+			if (existing) {
+				resolve(new VexdElement(existing));
+				return;
+			}
+			let timeoutId: number | null = null;
+			const observer = new MutationObserver(() => {
+				const found = find();
+				if (!found) return;
+				observer.disconnect();
+				if (timeoutId !== null) clearTimeout(timeoutId);
+				resolve(new VexdElement(found));
+			});
+			observer.observe(target, { childList: true, subtree: true, attributes: true });
+			if (timeout !== undefined) {
+				timeoutId = setTimeout(() => {
+					observer.disconnect();
+					reject(new Error(`vexd-js: timed out waiting for ${selector}`));
+				}, timeout);
+			}
+		});
+	}
+
 	/**
 	 * returns a VexdElement instance, equivalent to document.getElementById.
 	 * @param {string} id - The element's id.
@@ -48,13 +119,15 @@ export class Vexd {
 	}
 
 	/**
-	 * querySelectorAll but returns an array of VexdElement instances.
+	 * querySelectorAll but returns a collection of VexdElement instances.
 	 * @param selector 
-	 * @returns 
+	 * @returns {VexdCollection}
 	 */
-	static all(selector: string): VexdElement[] {
+	static all(selector: string): VexdCollection {
 		const nodeList = document.querySelectorAll(selector);
-		return Array.from(nodeList).map((el) => new VexdElement(el as HTMLElement));
+		return new VexdCollection(
+			Array.from(nodeList).map((el) => new VexdElement(el as HTMLElement))
+		);
 	}
 
 	/**
@@ -94,60 +167,201 @@ export class Vexd {
 	 * gets all of the forms in the document with an optional selector to filter them
 	 * by
 	 * @param {string} [optionalSelector] - Optional CSS selector to filter forms.
-	 * @returns {VexdElement[]} Array of VexdElement instances wrapping form elements.
+	 * @returns {VexdForm[]} Array of VexdForm instances wrapping form elements.
 	 */
-	static forms(optionalSelector?: string): VexdElement[] {
+	static forms(optionalSelector?: string): VexdForm[] {
 		let forms: HTMLCollectionOf<HTMLFormElement>;
 		if (optionalSelector) {
 			forms = document.querySelectorAll(`form${optionalSelector}`) as any;
 		} else {
 			forms = document.getElementsByTagName("form");
 		}
-		return Array.from(forms).map((el) => new VexdElement(el as HTMLElement));
+		return Array.from(forms).map((el) => new VexdForm(el));
+	}
+
+	/**
+	 * wraps a form for serialization, two-way state binding and validation.
+	 * @param {HTMLFormElement | string} form - A form element or a CSS selector string.
+	 * @param {VexdFormOptions} [options] - Validation options.
+	 * @returns {VexdForm} A VexdForm instance.
+	 * @throws Will throw an error if the element is not found or is not a form.
+	 */
+	static form(
+		form: HTMLFormElement | string,
+		options?: VexdFormOptions
+	): VexdForm {
+		return new VexdForm(form, options);
 	}
 
 	/**
 	 * equivalent to document.getElementsByTagName
 	 * @param {string} tagName - The tag name.
-	 * @returns {VexdElement[]} Array of VexdElement instances.
+	 * @returns {VexdCollection} Collection of VexdElement instances.
 	 */
-	static tags(tagName: string): VexdElement[] {
+	static tags(tagName: string): VexdCollection {
 		const tags = document.getElementsByTagName(tagName);
-		return Array.from(tags).map((el) => new VexdElement(el as HTMLElement));
+		return new VexdCollection(
+			Array.from(tags).map((el) => new VexdElement(el as HTMLElement))
+		);
 	}
 
 	/**
 	 * equivalent to document.getElementsByClassName
 	 * @param {string} className - The class name.
-	 * @returns {VexdElement[]} Array of VexdElement instances.
+	 * @returns {VexdCollection} Collection of VexdElement instances.
 	 */
-	static className(className: string): VexdElement[] {
+	static className(className: string): VexdCollection {
 		const elements = document.getElementsByClassName(className);
-		return Array.from(elements).map((el) => new VexdElement(el as HTMLElement));
+		return new VexdCollection(
+			Array.from(elements).map((el) => new VexdElement(el as HTMLElement))
+		);
 	}
 
 	/**
 	 * creates a VexdElement from a template literal and returns the
 	 * "top-level" element or container, if there are multiple only the
 	 * first one is returned as to ensure your templates are short as this
-	 * shouldn't be used for massive templates
+	 * shouldn't be used for massive templates.
+	 *
+	 * interpolated values are escaped unless wrapped with `unsafeHTML`, and
+	 * may be VexdElements, Nodes, arrays, `html` templates or VexdStates
+	 * (which update only their own hole). attribute names can be prefixed
+	 * with `@` for events, `.` for properties and `?` for boolean
+	 * attributes. bindings are owned by the returned element.
+	 * @throws Will throw an error if the template has no element.
 	 */
 	static template(
 		strings: TemplateStringsArray,
 		...values: any[]
 	): VexdElement {
-		const rawHTML = strings.reduce((result, string, i) => {
-			const value = i < values.length ? String(values[i] ?? "") : "";
-			return result + string + value;
-		}, "");
+		const { fragment, disposers } = renderTemplate(strings, values);
+		const root = fragment.firstElementChild;
+		if (!root) throw new Error("vexd-js: template does not contain an element");
+
+		const el = new VexdElement(root as HTMLElement);
+		disposers.forEach((dispose) => el.own(dispose));
+		return el;
+	}
+
+	/**
+	 * registers a custom element. props become states on `element.props`
+	 * and element properties, and are kept in sync with their attributes.
+	 * `setup` receives the host and the props each time the element is
+	 * connected, the template it returns is rendered into the shadow root
+	 * (or the element) and its effects are disposed on disconnect.
+	 * @param {string} tagName - Custom element name, must contain a hyphen.
+	 * @param {VexdComponentOptions<P>} options - Props, styles, shadow DOM and setup.
+	 * @returns The registered element class.
+	 * @throws Will throw an error if the tag name is already defined.
+	 */
+	static component<P extends VexdPropsDefinition = {}>(
+		tagName: string,
+		options?: VexdComponentOptions<P>
+	): { new (): VexdComponentElement<P> } {
+		return defineComponent(tagName, options);
+	}
+
+	/**
+	 * creates a router and starts it, the active route is available as a
+	 * state on `router.current`. clicks on `<a data-link>` navigate without
+	 * reloading the page.
+	 * @param {VexdRouterOptions} options - Routes, mode and guards.
+	 * @returns {VexdRouter} The started router.
+	 */
+	static router(options: VexdRouterOptions): VexdRouter {
+		const router = new VexdRouter(options);
+		router.start();
+		return router;
+	}
+
+	/**
+	 * registers a keyboard shortcut. `mod` is cmd on Apple platforms and
+	 * ctrl elsewhere, sequences are written as "g then i" and alternatives
+	 * are separated by commas. keys typed into inputs are ignored unless
+	 * `inputs` is set.
+	 * @param {string} keys - e.g "mod+k" or "g then i".
+	 * @param {(e: KeyboardEvent) => void} handler - Called with the keydown event of the final key.
+	 * @param {VexdHotkeyOptions} [options] - Scope, default prevention and input handling.
+	 * @returns {() => void} Function to remove the shortcut.
+	 * @throws Will throw an error if the shortcut cannot be parsed.
+	 */
+	static hotkey(
+		keys: string,
+		handler: (e: KeyboardEvent) => void,
+		options?: VexdHotkeyOptions
+	): VoidFunction {
+		return hotkey(keys, handler, options);
+	}
 
-		const template = document.createElement("template");
-		template.innerHTML = rawHTML.trim();
+	/**
+	 * switches the shortcuts registered with a named scope on or off.
+	 * @param {string} name - Scope name.
+	 * @param {boolean} active - Whether the scope's shortcuts are handled.
+	 */
+	static hotkeyScope(name: string, active: boolean): void {
+		setHotkeyScope(name, active);
+	}
 
-		const content = template.content;
-		return new VexdElement(content.firstChild as HTMLElement);
+	/**
+	 * reads a message to screen reader users through a shared, visually
+	 * hidden aria-live region.
+	 * @param {string} message - Text to announce.
+	 * @param {VexdAnnounceOptions} [options] - "polite" (default) or "assertive".
+	 */
+	static announce(message: string, options?: VexdAnnounceOptions): void {
+		announce(message, options);
 	}
 
+	/**
+	 * attaches the events and state bindings of a template to markup that
+	 * was rendered with `renderToString`, instead of recreating it. when
+	 * the markup does not match, the differences are reported (by default
+	 * with console.warn outside production builds) and the client's values
+	 * win.
+	 * @param {HTMLElement | VexdElement | string} root - Element containing the rendered markup, or a CSS selector.
+	 * @param {VexdTemplateResult} template - The template created with the `html` tag.
+	 * @param {VexdHydrateOptions} [options] - Mismatch reporting.
+	 * @returns {VexdElement} The root, owning the bindings.
+	 * @throws Will throw an error if the root is not found.
+	 */
+	static hydrate(
+		root: HTMLElement | VexdElement | string,
+		template: VexdTemplateResult,
+		options?: VexdHydrateOptions
+	): VexdElement {
+		const el = root instanceof VexdElement ? root : new VexdElement(root);
+		hydrateTemplate(el.native(), template, options).forEach((dispose) => el.own(dispose));
+		return el;
+	}
+
+	/**
+	 * creates a timeline for running animations across elements in
+	 * sequence (`add`) or in parallel (`with`).
+	 * @returns {VexdTimeline} A new timeline.
+	 */
+	static timeline(): VexdTimeline {
+		return new VexdTimeline();
+	}
+
+	/**
+	 * adds a single document level listener that only calls the handler when
+	 * the event target is, or is inside, an element matching the selector.
+	 * @param {string} eventName - Event name.
+	 * @param {string} selector - CSS selector the target must match.
+	 * @param {(e: Event, matched: VexdElement) => void} handler - Called with the event and the matched element.
+	 * @returns {() => void} Function to remove the listener.
+	 */
+	static delegate(
+		eventName: string,
+		selector: string,
+		handler: (e: Event, matched: VexdElement) => void
+	): VoidFunction {
+		return new VexdElement(document.documentElement).delegate(
+			eventName,
+			selector,
+			handler
+		);
+	}
 
 	static on(event: string, callback: VoidFunction): VoidFunction {
 		document.addEventListener(event, callback);